@@ -0,0 +1,76 @@
+/**
+ * ERC-20 สำหรับทดสอบ (compile จาก TestToken.sol ด้วย solc 0.8.24, optimizer 200 runs, evmVersion paris)
+ */
+export const TEST_TOKEN_ABI = [
+  'constructor(string _name, string _symbol, uint256 initialSupply)',
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address) view returns (uint256)',
+  'function allowance(address, address) view returns (uint256)',
+  'function mint(address to, uint256 amount)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Approval(address indexed owner, address indexed spender, uint256 value)'
+];
+
+export const TEST_TOKEN_BYTECODE = [
+  '0x60806040523480156200001157600080fd5b5060405162000abb38038062000abb83398101604081905262000034916200',
+  '01bc565b6000620000428482620002c0565b506001620000518382620002c0565b506200005e338262000067565b50505062',
+  '0003b4565b80600260008282546200007b91906200038c565b90915550506001600160a01b03821660009081526003602052',
+  '604081208054839290620000aa9084906200038c565b90915550506040518181526001600160a01b038316906000907fddf2',
+  '52ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9060200160405180910390a35050565b634e487b',
+  '7160e01b600052604160045260246000fd5b600082601f8301126200011c57600080fd5b81516001600160401b0380821115',
+  '620001395762000139620000f4565b604051601f8301601f19908116603f0116810190828211818310171562000164576200',
+  '0164620000f4565b81604052838152602092508660208588010111156200018257600080fd5b600091505b83821015620001',
+  'a6578582018301518183018401529082019062000187565b6000602085830101528094505050505092915050565b60008060',
+  '0060608486031215620001d257600080fd5b83516001600160401b0380821115620001ea57600080fd5b620001f887838801',
+  '6200010a565b945060208601519150808211156200020f57600080fd5b506200021e868287016200010a565b925050604084',
+  '015190509250925092565b600181811c908216806200024457607f821691505b6020821081036200026557634e487b7160e0',
+  '1b600052602260045260246000fd5b50919050565b601f821115620002bb576000816000526020600020601f850160051c81',
+  '016020861015620002965750805b601f850160051c820191505b81811015620002b757828155600101620002a2565b505050',
+  '5b505050565b81516001600160401b03811115620002dc57620002dc620000f4565b620002f481620002ed84546200022f56',
+  '5b846200026b565b602080601f8311600181146200032c5760008415620003135750858301515b600019600386901b1c1916',
+  '600185901b178555620002b7565b600085815260208120601f198616915b828110156200035d578886015182559484019460',
+  '019091019084016200033c565b50858210156200037c5787850151600019600388901b60f8161c191681555b505050505060',
+  '0190811b01905550565b80820180821115620003ae57634e487b7160e01b600052601160045260246000fd5b92915050565b',
+  '6106f780620003c46000396000f3fe608060405234801561001057600080fd5b506004361061009e5760003560e01c806340',
+  'c10f191161006657806340c10f191461012857806370a082311461013d57806395d89b411461015d578063a9059cbb146101',
+  '65578063dd62ed3e1461017857600080fd5b806306fdde03146100a3578063095ea7b3146100c157806318160ddd146100e4',
+  '57806323b872dd146100fb578063313ce5671461010e575b600080fd5b6100ab6101a3565b6040516100b89190610525565b',
+  '60405180910390f35b6100d46100cf366004610590565b610231565b60405190151581526020016100b8565b6100ed600254',
+  '81565b6040519081526020016100b8565b6100d46101093660046105ba565b61029e565b610116601281565b60405160ff90',
+  '911681526020016100b8565b61013b610136366004610590565b61035e565b005b6100ed61014b3660046105f6565b600360',
+  '20526000908152604090205481565b6100ab61036c565b6100d4610173366004610590565b610379565b6100ed6101863660',
+  '04610618565b600460209081526000928352604080842090915290825290205481565b600080546101b09061064b565b8060',
+  '1f01602080910402602001604051908101604052809291908181526020018280546101dc9061064b565b8015610229578060',
+  '1f106101fe57610100808354040283529160200191610229565b820191906000526020600020905b81548152906001019060',
+  '200180831161020c57829003601f168201915b505050505081565b3360008181526004602090815260408083206001600160',
+  'a01b038716808552925280832085905551919290917f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8',
+  'c7c3b9259061028c9086815260200190565b60405180910390a35060015b92915050565b6001600160a01b03831660009081',
+  '52600460209081526040808320338452909152812054828110156103105760405162461bcd60e51b81526020600482015260',
+  '16602482015275696e73756666696369656e7420616c6c6f77616e636560501b60448201526064015b60405180910390fd5b',
+  '600019811461034857610323838261069b565b6001600160a01b038616600090815260046020908152604080832033845290',
+  '91529020555b61035385858561038f565b506001949350505050565b610368828261049c565b5050565b600180546101b090',
+  '61064b565b600061038633848461038f565b50600192915050565b6001600160a01b03831660009081526003602052604090',
+  '20548111156103ee5760405162461bcd60e51b8152602060048201526014602482015273696e73756666696369656e742062',
+  '616c616e636560601b6044820152606401610307565b6001600160a01b038316600090815260036020526040812080548392',
+  '9061041690849061069b565b90915550506001600160a01b0382166000908152600360205260408120805483929061044390',
+  '84906106ae565b92505081905550816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378d',
+  'aa952ba7f163c4a11628f55a4df523b3ef8360405161048f91815260200190565b60405180910390a3505050565b80600260',
+  '008282546104ae91906106ae565b90915550506001600160a01b038216600090815260036020526040812080548392906104',
+  'db9084906106ae565b90915550506040518181526001600160a01b038316906000907fddf252ad1be2c89b69c2b068fc378d',
+  'aa952ba7f163c4a11628f55a4df523b3ef9060200160405180910390a35050565b6000602080835283518060208501526000',
+  '5b8181101561055357858101830151858201604001528201610537565b506000604082860101526040601f19601f83011685',
+  '01019250505092915050565b80356001600160a01b038116811461058b57600080fd5b919050565b60008060408385031215',
+  '6105a357600080fd5b6105ac83610574565b946020939093013593505050565b6000806000606084860312156105cf576000',
+  '80fd5b6105d884610574565b92506105e660208501610574565b9150604084013590509250925092565b6000602082840312',
+  '1561060857600080fd5b61061182610574565b9392505050565b6000806040838503121561062b57600080fd5b6106348361',
+  '0574565b915061064260208401610574565b90509250929050565b600181811c9082168061065f57607f821691505b602082',
+  '10810361067f57634e487b7160e01b600052602260045260246000fd5b50919050565b634e487b7160e01b60005260116004',
+  '5260246000fd5b8181038181111561029857610298610685565b808201808211156102985761029861068556fea264697066',
+  '735822122031e13e4bb5fcc3cfded55b595e89c9334b416bad83f8a254cc81961062b2f69d64736f6c63430008180033'
+].join('');
@@ -1,15 +1,66 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import { LoadTester } from './lib/load-tester';
-import { LoadTestConfig, LoadTestOptions } from './types';
+import { deriveKeysFromMnemonic, loadKeysFromFile } from './lib/wallet-pool';
+import { parseRampSpec, parseSpikeSpec, parseStepsSpec } from './lib/load-profile';
+import { loadScenario } from './lib/scenario';
+import { loadEnvSettings, resolveSettings } from './lib/settings';
+import { createResults, loadResults, renderHtmlReport } from './lib/report';
+import { compareResults, parseTolerances, DEFAULT_TOLERANCE } from './lib/compare';
+import { evaluateAssertions } from './lib/assertions';
+import { MetricsExporter } from './lib/metrics-exporter';
+import { LoadProfile, Settings, SettingsLayer, FundingTransfer, WorkloadConfig, LatencyStats, BlockUpdate, ErrorStats, EndpointStats, RpcEndpoint, TxPoolSample, TxPoolStats, TestResults, ComparisonResult, MetricComparison, MetricUnit, AssertionResult } from './types';
+import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
 
 const program = new Command();
 
+// flags ที่ตรงกับ setting หนึ่งต่อหนึ่ง (ค่าถูกตรวจสอบด้วย schema เดียวกับ scenario file และ environment variables)
+const FLAG_SETTINGS: Record<string, keyof Settings> = {
+  rpcStrategy: 'endpointStrategy',
+  ws: 'wsUrl',
+  trackPending: 'trackPending',
+  txpoolInterval: 'txpoolInterval',
+  privateKey: 'privateKey',
+  mnemonic: 'mnemonic',
+  walletCount: 'walletCount',
+  keyFile: 'keyFile',
+  target: 'targetAddress',
+  count: 'transactionCount',
+  concurrency: 'concurrency',
+  rate: 'rate',
+  value: 'value',
+  gasLimit: 'gasLimit',
+  gasPrice: 'gasPrice',
+  txType: 'txType',
+  maxFee: 'maxFeePerGas',
+  priorityFee: 'maxPriorityFeePerGas',
+  feeRefresh: 'feeRefresh',
+  presign: 'presign',
+  presignFile: 'presignFile',
+  rpcBatchSize: 'rpcBatchSize',
+  duration: 'duration',
+  drainTimeout: 'drainTimeout',
+  replaceAfter: 'replaceAfter',
+  feeBump: 'feeBump',
+  maxReplacements: 'maxReplacements',
+  maxRetries: 'maxRetries',
+  retryDelay: 'retryDelay',
+  verbose: 'verbose',
+  logLevel: 'logLevel',
+  output: 'outputFile',
+  journal: 'journalFile',
+  report: 'reportFile',
+  assert: 'assertions',
+  metricsPort: 'metricsPort',
+  metricsHost: 'metricsHost',
+  realTime: 'realTimeStats'
+};
+
 // ข้อมูลเวอร์ชัน
 const packageJson = JSON.parse(
   fs.readFileSync(path.join(__dirname, '../package.json'), 'utf8')
@@ -23,22 +74,59 @@ program
 program
   .command('test')
   .description('Run Ethereum transaction load test')
-  .requiredOption('-r, --rpc <url>', 'Ethereum RPC URL')
-  .requiredOption('-k, --private-key <key>', 'Private key for sending transactions')
-  .requiredOption('-t, --target <address>', 'Target address to send transactions to')
-  .option('-c, --count <number>', 'Number of transactions to send', '100')
-  .option('--concurrency <number>', 'Number of concurrent transactions', '10')
-  .option('-v, --value <amount>', 'Amount of ETH to send per transaction', '0')
-  .option('-g, --gas-limit <limit>', 'Gas limit per transaction', '21000')
+  .option('--config <file>', 'Scenario file (YAML or JSON) with any test settings; flags override it and it overrides environment variables / .env')
+  .option('-r, --rpc <url>', 'Ethereum RPC URL (http(s):// or ws(s)://); repeat to spread submissions across endpoints', collect)
+  .addOption(new Option('--rpc-strategy <strategy>', 'How to spread submissions across multiple --rpc endpoints (default: weighted when --rpc-weights is set, otherwise round-robin)').choices(['round-robin', 'weighted', 'sticky']))
+  .option('--rpc-weights <list>', 'Comma-separated weights for the --rpc endpoints, in the same order')
+  .option('--ws <url>', 'WebSocket URL for newHeads/pending subscriptions (default: --rpc when it is ws:// or wss://)')
+  .option('--track-pending', 'Subscribe to newPendingTransactions to measure how fast sent transactions reach the mempool')
+  .option('--txpool-interval <seconds>', 'Poll the node txpool (txpool_status or txpool_content) every N seconds and record pending/queued counts')
+  .option('-k, --private-key <key>', 'Private key for sending transactions')
+  .option('-m, --mnemonic <phrase>', 'HD mnemonic to derive sender wallets from')
+  .option('-w, --wallet-count <number>', 'Number of sender wallets to derive from the mnemonic (default: 10)')
+  .option('--key-file <file>', 'File with sender private keys (JSON array or one per line)')
+  .option('-t, --target <address>', 'Target address to send transactions to')
+  .option('-c, --count <number>', 'Number of transactions to send (default: 100 unless --duration is set)')
+  .option('--concurrency <number>', 'Number of concurrent transactions (default: 10)')
+  .option('--rate <tps>', 'Send at a constant rate (tx/s) instead of concurrent batches')
+  .option('--ramp <from:to:seconds>', 'Ramp the send rate linearly between two rates')
+  .option('--steps <rate:seconds,...>', 'Send in steps, holding each rate for the given seconds')
+  .option('--spike <base:peak:baseSeconds:spikeSeconds>', 'Baseline rate with a short spike in the middle')
+  .addOption(new Option('--scenario <file>', 'Alias of --config').hideHelp())
+  .option('-v, --value <amount>', 'Amount of ETH to send per transaction (default: 0)')
+  .option('-g, --gas-limit <limit>', 'Gas limit per transaction (default: estimated per workload)')
+  .addOption(new Option('--workload <type>', 'Transaction workload').choices(['eth-transfer', 'erc20-transfer', 'contract-call', 'deploy']))
+  .option('--contract <address>', 'Contract address to call (contract-call workload)')
+  .option('--abi <fragment>', 'ABI fragment of the function to call, e.g. "function store(uint256 value)"')
+  .option('--args <json>', 'JSON array of call arguments; supports {{index}}, {{sender}}, {{target}}, {{random}}, {{timestamp}}')
+  .option('--bytecode <hex|file>', 'Contract bytecode to deploy (deploy workload, default: bundled ERC-20)')
   .option('--gas-price <price>', 'Gas price in Gwei')
-  .option('-d, --duration <seconds>', 'Maximum test duration in seconds', '300')
+  .addOption(new Option('--tx-type <type>', 'Transaction type (default: legacy, or eip1559 when --max-fee/--priority-fee is set)').choices(['legacy', 'eip2930', 'eip1559']))
+  .option('--max-fee <gwei>', 'Max fee per gas in Gwei (EIP-1559)')
+  .option('--priority-fee <gwei>', 'Max priority fee per gas in Gwei (EIP-1559)')
+  .addOption(new Option('--fee-refresh <mode>', 'Fetch network fee data per transaction or once per block (default: per-tx)').choices(['per-tx', 'per-block']))
+  .option('--presign', 'Sign all transactions before the test starts and only broadcast raw transactions during the run')
+  .option('--presign-file <file>', 'Save the pre-signed raw transactions to a JSONL file (implies --presign)')
+  .option('--rpc-batch-size <n>', 'Send pre-signed transactions in JSON-RPC batch requests of up to n calls (implies --presign)')
+  .option('-d, --duration <seconds>', 'Keep sending load for this many seconds, then drain')
+  .option('--drain-timeout <seconds>', 'Maximum time to wait for confirmations after sending stops (default: 300)')
+  .option('--replace-after <seconds>', 'Re-send transactions still pending after this many seconds with the same nonce and a higher fee')
+  .option('--fee-bump <percent>', 'Fee increase per replacement in percent (with --replace-after, default: 10)')
+  .option('--max-replacements <n>', 'Maximum number of replacements per transaction (with --replace-after, default: 3)')
+  .option('--max-retries <n>', 'Retries for sends that fail with a retryable error (rate limited, timeout; default: 3)')
+  .option('--retry-delay <ms>', 'Delay before the first retry, doubled on every further retry (default: 1000)')
   .option('--verbose', 'Enable verbose logging')
-  .option('--log-level <level>', 'Log level (debug, info, warn, error)', 'info')
+  .option('--log-level <level>', 'Log level (debug, info, warn, error; default: info)')
   .option('-o, --output <file>', 'Output results to JSON file')
+  .option('--journal <file>', 'Stream every transaction (wallet, nonce, hash, fees, timings, status, error) to a JSONL file, or CSV when the file ends in .csv')
+  .option('--report <file>', 'Write a self-contained HTML report with charts (TPS, latency, blocks, errors)')
+  .option('--metrics-port <port>', 'Serve live Prometheus metrics at http://<host>:<port>/metrics during the test')
+  .option('--metrics-host <host>', 'Interface for the metrics endpoint (default: 127.0.0.1, use 0.0.0.0 to expose it on all interfaces)')
+  .option('--assert <expression>', 'Fail the run (exit code 1) unless the final metrics satisfy the expression, e.g. "successRate>=99" or "p95Inclusion<3s" (repeatable)', collect)
   .option('--no-real-time', 'Disable real-time statistics')
-  .action(async (options) => {
+  .action(async (options, command: Command) => {
     try {
-      await runLoadTest(options);
+      await runLoadTest(options, command);
     } catch (error) {
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
       process.exit(1);
@@ -59,41 +147,121 @@ program
     }
   });
 
+program
+  .command('fund')
+  .description('Top up derived sender wallets from the master wallet')
+  .requiredOption('-r, --rpc <url>', 'Ethereum RPC URL')
+  .requiredOption('-k, --private-key <key>', 'Private key of the master (funding) wallet')
+  .requiredOption('-a, --amount <eth>', 'Target balance in ETH for each sender wallet')
+  .option('-m, --mnemonic <phrase>', 'HD mnemonic to derive sender wallets from')
+  .option('-w, --wallet-count <number>', 'Number of sender wallets to derive from the mnemonic', '10')
+  .option('--key-file <file>', 'File with sender private keys (JSON array or one per line)')
+  .action(async (options) => {
+    try {
+      await runFunding('fund', options);
+    } catch (error) {
+      console.error(chalk.red('Funding failed:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('sweep')
+  .description('Return leftover ETH from sender wallets to the master wallet')
+  .requiredOption('-r, --rpc <url>', 'Ethereum RPC URL')
+  .requiredOption('-k, --private-key <key>', 'Private key of the master wallet to sweep into')
+  .option('-m, --mnemonic <phrase>', 'HD mnemonic to derive sender wallets from')
+  .option('-w, --wallet-count <number>', 'Number of sender wallets to derive from the mnemonic', '10')
+  .option('--key-file <file>', 'File with sender private keys (JSON array or one per line)')
+  .action(async (options) => {
+    try {
+      await runFunding('sweep', options);
+    } catch (error) {
+      console.error(chalk.red('Sweep failed:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('report')
+  .description('Render a self-contained HTML report from a results file saved with --output')
+  .argument('<results>', 'Results JSON file')
+  .option('-o, --output <file>', 'HTML file to write (default: the results file name with .html)')
+  .action(async (resultsFile: string, options) => {
+    try {
+      await generateReport(resultsFile, options);
+    } catch (error) {
+      console.error(chalk.red('Report failed:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('compare')
+  .description('Compare two results files and exit non-zero when the candidate regresses beyond the tolerance')
+  .argument('<baseline>', 'Results JSON file of the baseline run')
+  .argument('<candidate>', 'Results JSON file of the run to check')
+  .option('--tolerance <[metric=]percent>', `Allowed regression in percent for all metrics, or for one metric with metric=percent (repeatable, default: ${DEFAULT_TOLERANCE})`, collect)
+  .action(async (baselineFile: string, candidateFile: string, options) => {
+    let comparison: ComparisonResult;
+    try {
+      comparison = compareResults(loadResults(baselineFile), loadResults(candidateFile), parseTolerances(options.tolerance));
+    } catch (error) {
+      console.error(chalk.red('Compare failed:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+    displayComparison(comparison, baselineFile, candidateFile);
+    if (comparison.regressions > 0) {
+      process.exit(1);
+    }
+  });
+
+/**
+ * รวมค่าของ option ที่ระบุได้หลายครั้ง
+ */
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
 /**
  * รัน Load Test
  */
-async function runLoadTest(options: any): Promise<void> {
+async function runLoadTest(options: any, command: Command): Promise<void> {
   const spinner = ora('Initializing load test...').start();
+  let exporter: MetricsExporter | null = null;
 
   try {
-    // สร้าง configuration
-    const config: LoadTestConfig = {
-      rpcUrl: options.rpc,
-      privateKey: options.privateKey,
-      targetAddress: options.target,
-      transactionCount: parseInt(options.count),
-      concurrency: parseInt(options.concurrency),
-      value: options.value,
-      gasLimit: parseInt(options.gasLimit),
-      gasPrice: options.gasPrice,
-      duration: parseInt(options.duration)
-    };
-
-    const testOptions: LoadTestOptions = {
-      verbose: options.verbose,
-      logLevel: options.logLevel,
-      outputFile: options.output,
-      realTimeStats: options.realTime !== false
-    };
+    // ลำดับความสำคัญ: flags > scenario file > environment variables (รวม .env)
+    dotenv.config({ quiet: true });
+    const scenarioFiles: string[] = [options.scenario, options.config].filter(Boolean);
+    const { config, options: testOptions } = resolveSettings([
+      loadEnvSettings(),
+      ...scenarioFiles.map(loadScenario),
+      resolveFlagSettings(options, command)
+    ]);
 
     // สร้าง LoadTester instance
     const loadTester = new LoadTester(config, testOptions);
 
     // Event listeners สำหรับ real-time updates
     if (testOptions.realTimeStats) {
+      let lastBlock = '';
+      let lastTxPool = '';
       loadTester.on('stats', (stats) => {
-        spinner.text = `TPS: ${stats.averageTPS?.toFixed(2)} | Success: ${stats.successfulTransactions} | Failed: ${stats.failedTransactions} | Pending: ${stats.pendingTransactions}`;
+        spinner.text = `TPS: ${stats.averageTPS?.toFixed(2)} | Success: ${stats.successfulTransactions} | Failed: ${stats.failedTransactions} | Pending: ${stats.pendingTransactions}${lastBlock}${lastTxPool}`;
       });
+      loadTester.on('block', (block: BlockUpdate) => {
+        lastBlock = ` | Block #${block.number}: ${block.transactionCount} txs (${block.confirmed} ours)`;
+      });
+      loadTester.on('txpool', (sample: TxPoolSample) => {
+        lastTxPool = ` | Pool: ${sample.pending} pending, ${sample.queued} queued`;
+      });
+    }
+
+    // เปิด Prometheus metrics endpoint ถ้าระบุ port
+    if (testOptions.metricsPort) {
+      exporter = new MetricsExporter(loadTester, testOptions.metricsPort, testOptions.metricsHost);
+      await exporter.start();
     }
 
     // เริ่มต้น LoadTester
@@ -102,16 +270,86 @@ async function runLoadTest(options: any): Promise<void> {
 
     // แสดงข้อมูลการทดสอบ
     console.log(chalk.cyan('\n📊 Load Test Configuration:'));
-    console.log(`  RPC URL: ${config.rpcUrl}`);
+    if (config.rpcEndpoints) {
+      console.log(`  RPC Endpoints (${config.endpointStrategy}):`);
+      for (const endpoint of config.rpcEndpoints) {
+        console.log(`    ${endpoint.url}${endpoint.weight !== undefined ? ` (weight ${endpoint.weight})` : ''}`);
+      }
+    } else {
+      console.log(`  RPC URL: ${config.rpcUrl}`);
+    }
+    if (config.wsUrl) {
+      console.log(`  WebSocket URL: ${config.wsUrl}`);
+    }
+    if (config.trackPending) {
+      console.log('  Track Pending: yes (newPendingTransactions)');
+    }
+    if (config.txpoolInterval) {
+      console.log(`  TxPool Poll: every ${config.txpoolInterval} seconds`);
+    }
     console.log(`  Target Address: ${config.targetAddress}`);
-    console.log(`  Transaction Count: ${config.transactionCount}`);
-    console.log(`  Concurrency: ${config.concurrency}`);
+    if (config.mnemonic) {
+      console.log(`  Sender Wallets: ${config.walletCount} (derived from mnemonic)`);
+    } else if (config.keyFile) {
+      console.log(`  Sender Wallets: loaded from ${config.keyFile}`);
+    }
+    if (config.transactionCount !== undefined) {
+      console.log(`  Transaction Count: ${config.transactionCount}`);
+    }
+    if (config.profile) {
+      console.log('  Load Profile:');
+      for (const stage of config.profile.stages) {
+        console.log(`    ${stage.name}: ${stage.startRate} → ${stage.endRate} tx/s for ${stage.duration}s`);
+      }
+    } else if (config.rate) {
+      console.log(`  Target Rate: ${config.rate} tx/s (open-loop)`);
+    } else {
+      console.log(`  Concurrency: ${config.concurrency}`);
+    }
     console.log(`  Value per TX: ${config.value || '0'} ETH`);
-    console.log(`  Gas Limit: ${config.gasLimit}`);
+    if (config.workloads && config.workloads.length > 1) {
+      const totalWeight = config.workloads.reduce((sum, w) => sum + (w.weight ?? 1), 0);
+      console.log('  Workloads:');
+      for (const workload of config.workloads) {
+        const share = ((workload.weight ?? 1) / totalWeight * 100).toFixed(1);
+        console.log(`    ${workload.name ?? workload.type}: ${share}%`);
+      }
+    } else {
+      console.log(`  Workload: ${config.workloads?.[0]?.type ?? 'eth-transfer'}`);
+    }
+    console.log(`  Gas Limit: ${config.gasLimit ?? 'estimated'}`);
+    if (config.txType) {
+      console.log(`  Transaction Type: ${config.txType}`);
+    }
     if (config.gasPrice) {
       console.log(`  Gas Price: ${config.gasPrice} Gwei`);
     }
-    console.log(`  Max Duration: ${config.duration} seconds\n`);
+    if (config.maxFeePerGas) {
+      console.log(`  Max Fee: ${config.maxFeePerGas} Gwei`);
+    }
+    if (config.maxPriorityFeePerGas) {
+      console.log(`  Priority Fee: ${config.maxPriorityFeePerGas} Gwei`);
+    }
+    console.log(`  Fee Refresh: ${config.feeRefresh}`);
+    if (config.presign) {
+      console.log(`  Pre-Signed: yes${testOptions.presignFile ? ` (saved to ${testOptions.presignFile})` : ''}`);
+    }
+    if (testOptions.journalFile) {
+      console.log(`  Journal: ${testOptions.journalFile}`);
+    }
+    if (exporter) {
+      console.log(`  Metrics: ${exporter.url}`);
+    }
+    if (config.rpcBatchSize) {
+      console.log(`  RPC Batch Size: ${config.rpcBatchSize}`);
+    }
+    if (config.duration) {
+      console.log(`  Duration: ${config.duration} seconds`);
+    }
+    if (config.replaceAfter) {
+      console.log(`  Replace After: ${config.replaceAfter} seconds (+${config.feeBump}% fee, up to ${config.maxReplacements} times)`);
+    }
+    console.log(`  Drain Timeout: ${config.drainTimeout} seconds\n`);
 
     // เริ่มการทดสอบ
     spinner.start('Running load test...');
@@ -125,18 +363,35 @@ async function runLoadTest(options: any): Promise<void> {
     // แสดงผลลัพธ์
     displayResults(metrics, endTime - startTime);
 
+    // ตรวจ assertions กับ metrics สุดท้าย
+    const assertions = testOptions.assertions ? evaluateAssertions(testOptions.assertions, metrics) : undefined;
+    if (assertions) {
+      displayAssertions(assertions);
+    }
+
     // บันทึกผลลัพธ์ลงไฟล์ถ้าระบุ
-    if (options.output) {
-      await saveResults(options.output, metrics, config);
-      console.log(chalk.green(`\n💾 Results saved to: ${options.output}`));
+    const results = createResults(metrics, config, assertions);
+    if (testOptions.outputFile) {
+      await saveResults(testOptions.outputFile, results);
+      console.log(chalk.green(`\n💾 Results saved to: ${testOptions.outputFile}`));
+    }
+    if (testOptions.reportFile) {
+      await fs.promises.writeFile(testOptions.reportFile, renderHtmlReport(results));
+      console.log(chalk.green(`📄 Report saved to: ${testOptions.reportFile}`));
     }
 
     // ปิดการเชื่อมต่อ
     loadTester.disconnect();
 
+    if (assertions?.some(assertion => !assertion.passed)) {
+      process.exitCode = 1;
+    }
+
   } catch (error) {
     spinner.fail('Load test failed');
     throw error;
+  } finally {
+    await exporter?.stop();
   }
 }
 
@@ -179,6 +434,179 @@ async function validateConfig(options: any): Promise<void> {
   }
 }
 
+/**
+ * สร้าง settings จาก flags ที่ระบุใน command line (ไม่รวมค่าที่ไม่ได้ระบุ เพื่อให้ใช้ค่าจาก scenario file หรือ environment ได้)
+ */
+function resolveFlagSettings(options: any, command: Command): SettingsLayer {
+  const given = (key: string): boolean => command.getOptionValueSource(key) === 'cli';
+  const flagName = (key: string): string => command.options.find(option => option.attributeName() === key)?.long ?? key;
+  const layer: SettingsLayer = {};
+
+  for (const [key, setting] of Object.entries(FLAG_SETTINGS)) {
+    if (given(key)) {
+      layer[setting] = { value: options[key], source: flagName(key) };
+    }
+  }
+
+  if (given('rpcWeights') && !given('rpc')) {
+    throw new Error('--rpc-weights requires --rpc');
+  }
+  if (given('rpc')) {
+    const endpoints = resolveEndpoints(options);
+    layer.rpcUrl = { value: endpoints[0]!.url, source: '--rpc' };
+    if (endpoints.length > 1) {
+      layer.rpcEndpoints = { value: endpoints, source: '--rpc' };
+    }
+  }
+  const profile = resolveProfile(options);
+  if (profile) {
+    layer.profile = { value: profile, source: ['--ramp', '--steps', '--spike'].find(flag => options[flag.slice(2)])! };
+  }
+  if (given('workload')) {
+    layer.workloads = { value: [resolveWorkload(options)], source: '--workload' };
+  }
+  return layer;
+}
+
+/**
+ * สร้าง load profile จาก --ramp, --steps หรือ --spike
+ */
+function resolveProfile(options: any): LoadProfile | undefined {
+  const flags = ['ramp', 'steps', 'spike'].filter(flag => options[flag]);
+  if (flags.length > 1) {
+    throw new Error(`Only one of --ramp, --steps or --spike can be used (got ${flags.map(f => `--${f}`).join(', ')})`);
+  }
+
+  if (options.ramp) {
+    return parseRampSpec(options.ramp);
+  }
+  if (options.steps) {
+    return parseStepsSpec(options.steps);
+  }
+  if (options.spike) {
+    return parseSpikeSpec(options.spike);
+  }
+  return undefined;
+}
+
+/**
+ * สร้างรายการ RPC endpoints จาก --rpc (ระบุได้หลายครั้ง) และ --rpc-weights
+ */
+function resolveEndpoints(options: any): RpcEndpoint[] {
+  const urls: string[] = options.rpc;
+  if (!options.rpcWeights) {
+    return urls.map(url => ({ url }));
+  }
+
+  const weights = String(options.rpcWeights).split(',').map(weight => parseFloat(weight.trim()));
+  if (weights.length !== urls.length || weights.some(weight => !(weight > 0))) {
+    throw new Error(`Invalid --rpc-weights value, expected ${urls.length} positive numbers: ${options.rpcWeights}`);
+  }
+  return urls.map((url, i) => ({ url, weight: weights[i]! }));
+}
+
+/**
+ * สร้าง workload config จาก --workload และ options ที่เกี่ยวข้อง
+ */
+function resolveWorkload(options: any): WorkloadConfig {
+  const workload: WorkloadConfig = { type: options.workload };
+
+  if (options.contract) {
+    workload.contractAddress = options.contract;
+  }
+  if (options.abi) {
+    workload.abi = options.abi;
+  }
+  if (options.args) {
+    let args: unknown;
+    try {
+      args = JSON.parse(options.args);
+    } catch (error) {
+      throw new Error(`Invalid --args value, expected a JSON array: ${options.args}`);
+    }
+    if (!Array.isArray(args)) {
+      throw new Error(`Invalid --args value, expected a JSON array: ${options.args}`);
+    }
+    workload.args = args;
+  }
+  if (options.bytecode) {
+    workload.bytecode = options.bytecode;
+  }
+  return workload;
+}
+
+/**
+ * ดึง private keys ของ sender wallets จาก --mnemonic หรือ --key-file
+ */
+function resolveWalletKeys(options: any): string[] {
+  if (options.mnemonic) {
+    return deriveKeysFromMnemonic(options.mnemonic, parseInt(options.walletCount));
+  }
+  if (options.keyFile) {
+    return loadKeysFromFile(options.keyFile);
+  }
+  throw new Error('One of --mnemonic or --key-file is required');
+}
+
+/**
+ * เติม ETH ให้ sender wallets หรือ sweep ยอดคงเหลือกลับไปยัง master
+ */
+async function runFunding(mode: 'fund' | 'sweep', options: any): Promise<void> {
+  const spinner = ora(mode === 'fund' ? 'Funding sender wallets...' : 'Sweeping sender wallets...').start();
+
+  try {
+    const { WalletFunder } = await import('./lib/wallet-funder');
+    const funder = new WalletFunder(options.rpc, options.privateKey, resolveWalletKeys(options));
+
+    await funder.initialize();
+    const transfers = mode === 'fund'
+      ? await funder.fund(options.amount)
+      : await funder.sweep();
+    funder.disconnect();
+
+    const failed = transfers.filter(t => t.status === 'failed').length;
+    if (failed > 0) {
+      spinner.warn(`${mode === 'fund' ? 'Funding' : 'Sweep'} completed with ${failed} failed transfer(s)`);
+    } else {
+      spinner.succeed(`${mode === 'fund' ? 'Funding' : 'Sweep'} completed`);
+    }
+
+    displayTransfers(transfers);
+  } catch (error) {
+    spinner.fail(`${mode === 'fund' ? 'Funding' : 'Sweep'} failed`);
+    throw error;
+  }
+}
+
+/**
+ * แสดงสรุปการโอน ETH ระหว่าง master และ sender wallets
+ */
+function displayTransfers(transfers: FundingTransfer[]): void {
+  console.log(chalk.cyan('\n💸 Transfer Summary:'));
+
+  let moved = 0;
+  for (const transfer of transfers) {
+    const status = transfer.status === 'success'
+      ? chalk.green('success')
+      : transfer.status === 'skipped' ? chalk.gray('skipped') : chalk.red('failed');
+
+    console.log(`  ${transfer.from} → ${transfer.to}  ${transfer.amount} ETH  ${status}`);
+    if (transfer.hash) {
+      console.log(chalk.gray(`    tx: ${transfer.hash}`));
+    }
+    if (transfer.error) {
+      console.log(chalk.red(`    error: ${transfer.error}`));
+    }
+    if (transfer.status === 'success') {
+      moved += parseFloat(transfer.amount);
+    }
+  }
+
+  const count = (status: FundingTransfer['status']) => transfers.filter(t => t.status === status).length;
+  console.log(`\n  Transferred: ${count('success')}  Skipped: ${count('skipped')}  Failed: ${count('failed')}`);
+  console.log(`  Total Moved: ${moved.toFixed(6)} ETH`);
+}
+
 /**
  * แสดงผลลัพธ์การทดสอบ
  */
@@ -194,12 +622,63 @@ function displayResults(metrics: any, duration: number): void {
   console.log(chalk.cyan('\n⚡ Performance Metrics:'));
   console.log(`  Average TPS: ${chalk.bold(metrics.averageTPS.toFixed(2))}`);
   console.log(`  Peak TPS: ${chalk.bold(metrics.peakTPS.toFixed(2))}`);
+  if (metrics.targetTPS) {
+    console.log(`  Target TPS: ${metrics.targetTPS.toFixed(2)}`);
+  }
+  console.log(`  Offered TPS: ${metrics.offeredTPS.toFixed(2)}`);
+  if (metrics.targetTPS || metrics.stageStats?.length > 0) {
+    console.log(`  Schedule Lag: avg ${metrics.averageScheduleLag.toFixed(1)} ms, max ${metrics.maxScheduleLag.toFixed(1)} ms`);
+  }
   console.log(`  Total Duration: ${(duration / 1000).toFixed(2)} seconds`);
+  if (metrics.signingDuration !== undefined) {
+    console.log(`  Signing Time: ${(metrics.signingDuration / 1000).toFixed(2)} seconds (before send)`);
+  }
+  if (metrics.rpcBatches !== undefined) {
+    console.log(`  RPC Batches: ${metrics.rpcBatches} (avg ${(metrics.totalTransactions / metrics.rpcBatches).toFixed(1)} tx/batch)`);
+  }
+  
+  if (metrics.retries > 0) {
+    console.log(`  Retries: ${metrics.retries}`);
+  }
+  if (metrics.replacementsSent !== undefined) {
+    console.log(`  Replacements Sent: ${metrics.replacementsSent} (${metrics.replacedTransactions} included via replacement)`);
+  }
   
   if (metrics.averageConfirmationTime > 0) {
     console.log(`  Avg Confirmation Time: ${(metrics.averageConfirmationTime / 1000).toFixed(2)} seconds`);
   }
   
+  // แสดง latency percentiles และ histogram
+  if (metrics.submitLatency?.count > 0 || metrics.inclusionLatency?.count > 0) {
+    console.log(chalk.cyan('\n⏱️  Latency:'));
+    displayLatency('Submit', metrics.submitLatency);
+    displayLatency('Inclusion', metrics.inclusionLatency);
+    if (metrics.mempoolLatency) {
+      displayLatency('Mempool', metrics.mempoolLatency);
+      if (metrics.mempoolUnseen > 0) {
+        console.log(chalk.yellow(`    ${metrics.mempoolUnseen} transactions never appeared in pending notifications`));
+      }
+    }
+  }
+  
+  // แสดง errors แยกตามประเภท
+  if (metrics.errorStats?.length > 0) {
+    console.log(chalk.cyan('\n❌ Errors:'));
+    console.log(chalk.gray(`  ${'Category'.padEnd(24)} ${'Send'.padStart(6)} ${'Receipt'.padStart(8)}  Retryable  Example`));
+    for (const stats of metrics.errorStats as ErrorStats[]) {
+      const example = stats.example.length > 60 ? `${stats.example.slice(0, 57)}...` : stats.example;
+      console.log(`  ${stats.category.padEnd(24)} ${String(stats.send).padStart(6)} ${String(stats.receipt).padStart(8)}  ${(stats.retryable ? 'yes' : 'no').padEnd(9)}  ${chalk.gray(example)}`);
+    }
+  }
+  
+  // แสดงสถิติ nonce ถ้ามีการคืน nonce หรือพบ nonce gaps
+  const nonces = metrics.nonceStats;
+  if (nonces && (nonces.reclaimed > 0 || nonces.gapsDetected > 0)) {
+    console.log(chalk.cyan('\n🔢 Nonces:'));
+    console.log(`  Reclaimed: ${nonces.reclaimed}`);
+    console.log(`  Gaps Detected: ${nonces.gapsDetected}  Repaired: ${nonces.gapsRepaired}`);
+  }
+  
   console.log(chalk.cyan('\n💰 Cost Analysis:'));
   console.log(`  Total Gas Used: ${metrics.gasUsedTotal.toLocaleString()}`);
   console.log(`  Estimated Cost: ${metrics.totalCost} ETH`);
@@ -216,6 +695,66 @@ function displayResults(metrics: any, duration: number): void {
       console.log(`  Block Range: ${uniqueBlocks[0]} - ${uniqueBlocks[uniqueBlocks.length - 1]}`);
     }
   }
+
+  // แสดง throughput ที่วัดจาก blocks บน chain
+  if (metrics.chainStats && metrics.chainStats.blockCount > 0) {
+    const chain = metrics.chainStats;
+    console.log(chalk.cyan('\n⛓️  On-Chain Metrics:'));
+    console.log(`  Blocks Scanned: ${chain.blockCount} (${chain.startBlock} - ${chain.endBlock})`);
+    console.log(`  Chain TPS: ${chalk.bold(chain.tps.toFixed(2))} (ours: ${chain.ownTPS.toFixed(2)}) over ${chain.timeSpan}s of block time`);
+    console.log(`  Transactions: ${chain.totalTransactions} (ours: ${chain.ownTransactions}, foreign: ${chain.foreignTransactions})`);
+    console.log(`  Avg Transactions per Block: ${chain.averageTransactionsPerBlock.toFixed(2)}`);
+    console.log(`  Avg Gas Utilization: ${(chain.averageGasUtilization * 100).toFixed(2)}%`);
+    console.log(`  Avg Block Interval: ${chain.averageBlockInterval.toFixed(2)}s`);
+  }
+
+  // แสดงจำนวน transactions ใน txpool ของ node
+  if (metrics.txpoolStats) {
+    const txpool = metrics.txpoolStats as TxPoolStats;
+    console.log(chalk.cyan('\n🗃️  TxPool:'));
+    if (txpool.method === null) {
+      console.log(chalk.yellow('  Node does not support txpool_status or txpool_content'));
+    } else {
+      const last = txpool.samples[txpool.samples.length - 1];
+      console.log(`  Method: ${txpool.method} (${txpool.samples.length} samples every ${txpool.interval / 1000}s)`);
+      console.log(`  Max Pending: ${txpool.maxPending}  Max Queued: ${txpool.maxQueued}`);
+      if (last) {
+        console.log(`  Final: ${last.pending} pending, ${last.queued} queued`);
+      }
+    }
+  }
+
+  // แสดงสถิติแยกตามประเภท transaction ถ้ามีหลาย workloads
+  if (metrics.workloadStats && metrics.workloadStats.length > 1) {
+    console.log(chalk.cyan('\n🧩 Per-Workload Results:'));
+    for (const stats of metrics.workloadStats) {
+      console.log(`  ${stats.name} (${stats.type})  sent: ${stats.sent}  success: ${chalk.green(stats.successful)}  failed: ${chalk.red(stats.failed)}  gas: ${stats.gasUsed.toLocaleString()}  avg latency: ${(stats.averageLatency / 1000).toFixed(2)}s`);
+    }
+  }
+  
+  // แสดงสถิติแยกตาม stage ของ load profile
+  if (metrics.stageStats && metrics.stageStats.length > 0) {
+    console.log(chalk.cyan('\n📶 Per-Stage Results:'));
+    for (const stage of metrics.stageStats) {
+      console.log(`  ${stage.name} (${stage.startRate} → ${stage.endRate} tx/s, ${stage.duration}s)  sent: ${stage.sent}  success: ${chalk.green(stage.successful)}  failed: ${chalk.red(stage.failed)}  offered: ${stage.offeredTPS.toFixed(2)} TPS  achieved: ${stage.achievedTPS.toFixed(2)} TPS`);
+    }
+  }
+  
+  // แสดงสถิติแยกตาม RPC endpoint ถ้ามีหลาย endpoints
+  if (metrics.endpointStats && metrics.endpointStats.length > 1) {
+    console.log(chalk.cyan('\n🌐 Per-Endpoint Results:'));
+    for (const stats of metrics.endpointStats as EndpointStats[]) {
+      console.log(`  ${stats.url}  sent: ${stats.sent}  accepted: ${chalk.green(stats.accepted)}  failed: ${chalk.red(stats.failed)}  error rate: ${(stats.errorRate * 100).toFixed(2)}%  submit p50: ${formatLatency(stats.submitLatency.p50)}  p95: ${formatLatency(stats.submitLatency.p95)}  max: ${formatLatency(stats.submitLatency.max)}`);
+    }
+  }
+  
+  // แสดงสถิติแยกตาม wallet ถ้ามีหลาย wallets
+  if (metrics.walletStats && metrics.walletStats.length > 1) {
+    console.log(chalk.cyan('\n👛 Per-Wallet Results:'));
+    for (const stats of metrics.walletStats) {
+      console.log(`  ${stats.address}  sent: ${stats.sent}  success: ${chalk.green(stats.successful)}  failed: ${chalk.red(stats.failed)}`);
+    }
+  }
   
   // คำนวณ success rate
   const successRate = metrics.totalTransactions > 0 
@@ -229,28 +768,133 @@ function displayResults(metrics: any, duration: number): void {
 }
 
 /**
- * บันทึกผลลัพธ์ลงไฟล์
+ * แสดง percentiles และ histogram ของ latency
  */
-async function saveResults(filename: string, metrics: any, config: LoadTestConfig): Promise<void> {
-  const results = {
-    timestamp: new Date().toISOString(),
-    config: {
-      ...config,
-      privateKey: '[REDACTED]' // ไม่บันทึก private key
-    },
-    metrics,
-    summary: {
-      successRate: metrics.totalTransactions > 0 
-        ? (metrics.successfulTransactions / metrics.totalTransactions * 100).toFixed(2) + '%'
-        : '0%',
-      avgTPS: metrics.averageTPS.toFixed(2),
-      peakTPS: metrics.peakTPS.toFixed(2)
-    }
-  };
+function displayLatency(label: string, stats: LatencyStats): void {
+  if (stats.count === 0) {
+    return;
+  }
   
+  console.log(`  ${label}: min ${formatLatency(stats.min)}  p50 ${formatLatency(stats.p50)}  p90 ${formatLatency(stats.p90)}  p95 ${formatLatency(stats.p95)}  p99 ${formatLatency(stats.p99)}  max ${formatLatency(stats.max)}`);
+  
+  // แสดงเฉพาะช่วง buckets ที่มีข้อมูล
+  const first = stats.histogram.findIndex(bucket => bucket.count > 0);
+  const last = stats.histogram.length - 1 - [...stats.histogram].reverse().findIndex(bucket => bucket.count > 0);
+  const largest = Math.max(...stats.histogram.map(bucket => bucket.count));
+  for (const bucket of stats.histogram.slice(first, last + 1)) {
+    const bound = bucket.upperBound === null ? '> max' : `≤ ${formatLatency(bucket.upperBound)}`;
+    const bar = '█'.repeat(Math.round(bucket.count / largest * 30));
+    console.log(`    ${bound.padStart(9)} ${chalk.gray(bar)} ${bucket.count}`);
+  }
+}
+
+/**
+ * แปลง latency (ms) เป็นข้อความ
+ */
+function formatLatency(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(2)}s`;
+}
+
+/**
+ * บันทึกผลลัพธ์ลงไฟล์
+ */
+async function saveResults(filename: string, results: TestResults): Promise<void> {
   await fs.promises.writeFile(filename, JSON.stringify(results, null, 2));
 }
 
+/**
+ * สร้างรายงาน HTML จากไฟล์ผลลัพธ์ที่บันทึกด้วย --output
+ */
+async function generateReport(resultsFile: string, options: any): Promise<void> {
+  const results = loadResults(resultsFile);
+  const reportFile: string = options.output ?? resultsFile.replace(/\.json$/i, '') + '.html';
+  await fs.promises.writeFile(reportFile, renderHtmlReport(results));
+  console.log(chalk.green(`📄 Report saved to: ${reportFile}`));
+}
+
+/**
+ * แสดงผล assertions เป็นตาราง pass/fail
+ */
+function displayAssertions(assertions: AssertionResult[]): void {
+  const failed = assertions.filter(assertion => !assertion.passed).length;
+  console.log(chalk.cyan('\n🎯 Assertions:'));
+  console.log(chalk.gray(`  ${'Assertion'.padEnd(32)} ${'Actual'.padStart(12)}  Result`));
+  for (const assertion of assertions) {
+    const actual = assertion.actual === null ? 'n/a' : formatMetric(assertion.unit, assertion.actual);
+    const result = assertion.passed ? chalk.green('PASS') : chalk.red('FAIL');
+    console.log(`  ${assertion.expression.padEnd(32)} ${actual.padStart(12)}  ${result}`);
+  }
+  console.log(failed > 0
+    ? chalk.red(`  ❌ ${failed} of ${assertions.length} assertion(s) failed`)
+    : chalk.green(`  ✅ All ${assertions.length} assertion(s) passed`));
+}
+
+/**
+ * แสดงผลการเปรียบเทียบสองการทดสอบ
+ */
+function displayComparison(comparison: ComparisonResult, baselineFile: string, candidateFile: string): void {
+  console.log(chalk.cyan('\n🔍 Comparison:'));
+  console.log(`  Baseline: ${baselineFile}`);
+  console.log(`  Candidate: ${candidateFile}`);
+  if (comparison.configDifferences.length > 0) {
+    console.log(chalk.yellow(`  ⚠️  Settings differ between runs: ${comparison.configDifferences.join(', ')}`));
+  }
+  console.log(chalk.green('═'.repeat(50)));
+
+  console.log(chalk.gray(`  ${'Metric'.padEnd(20)} ${'Baseline'.padStart(12)} ${'Candidate'.padStart(12)} ${'Delta'.padStart(12)} ${'Change'.padStart(9)}  Tolerance`));
+  for (const metric of comparison.metrics) {
+    const candidate = metric.candidate !== null ? formatMetric(metric.unit, metric.candidate) : 'missing';
+    const delta = metric.delta !== null ? (metric.delta > 0 ? '+' : '') + formatMetric(metric.unit, metric.delta) : '-';
+    const tolerance = metric.tolerance === undefined ? '-' : metric.unit === '%' ? `${metric.tolerance}pp` : `${metric.tolerance}%`;
+    const line = `  ${metric.label.padEnd(20)} ${formatMetric(metric.unit, metric.baseline).padStart(12)} ${candidate.padStart(12)} ` +
+      `${delta.padStart(12)} ${formatPercentChange(metric).padStart(9)}  ${tolerance}`;
+    console.log(comparisonColor(metric)(line));
+  }
+
+  console.log(chalk.green('═'.repeat(50)));
+  if (comparison.regressions > 0) {
+    const names = comparison.metrics.filter(metric => metric.regression)
+      .map(metric => metric.candidate === null ? `${metric.label} (missing)` : metric.label);
+    console.log(chalk.red(`❌ ${comparison.regressions} regression(s) beyond tolerance: ${names.join(', ')}`));
+  } else {
+    console.log(chalk.green('✅ No regressions beyond tolerance'));
+  }
+}
+
+/**
+ * สีของแต่ละแถว: แดง = regression, เหลือง = แย่ลงแต่อยู่ใน tolerance, เขียว = ดีขึ้น
+ */
+function comparisonColor(metric: MetricComparison): (text: string) => string {
+  if (metric.regression) {
+    return chalk.red;
+  }
+  if (!metric.direction || metric.delta === null || metric.delta === 0) {
+    return text => text;
+  }
+  const improved = metric.direction === 'higher' ? metric.delta > 0 : metric.delta < 0;
+  return improved ? chalk.green : chalk.yellow;
+}
+
+function formatMetric(unit: MetricUnit, value: number): string {
+  switch (unit) {
+    case 'ms':
+      return Math.abs(value) < 1000 ? `${Math.round(value)}ms` : `${(value / 1000).toFixed(2)}s`;
+    case '%':
+      return `${value.toFixed(2)}%`;
+    case 'tx/s':
+      return value.toFixed(2);
+    default:
+      return String(value);
+  }
+}
+
+function formatPercentChange(metric: MetricComparison): string {
+  if (metric.percent === null) {
+    return metric.delta === 0 ? '0.0%' : 'n/a';
+  }
+  return `${metric.percent > 0 ? '+' : ''}${metric.percent.toFixed(1)}%`;
+}
+
 // Handle graceful shutdown
 process.on('SIGINT', () => {
   console.log(chalk.yellow('\n\n⚠️  Received SIGINT. Shutting down gracefully...'));
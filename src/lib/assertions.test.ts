@@ -0,0 +1,93 @@
+import { evaluateAssertions, parseAssertion } from './assertions';
+import { LatencyStats, LoadTestMetrics } from '../types';
+
+function latency(p95: number, count: number = 100): LatencyStats {
+  return { count, min: p95 / 4, max: p95 * 2, average: p95 / 2, p50: p95 / 2, p90: p95 * 0.9, p95, p99: p95 * 1.5, histogram: [] };
+}
+
+// metrics สุดท้ายของการทดสอบที่มีเฉพาะค่าที่ assertions อ่าน
+function metrics(values: Partial<LoadTestMetrics> = {}): LoadTestMetrics {
+  return {
+    totalTransactions: 1000,
+    successfulTransactions: 990,
+    failedTransactions: 10,
+    pendingTransactions: 0,
+    averageTPS: 150,
+    peakTPS: 180,
+    retries: 2,
+    inclusionLatency: latency(2500),
+    submitLatency: latency(40),
+    ...values
+  } as LoadTestMetrics;
+}
+
+describe('parseAssertion', () => {
+  it('parses plain metrics', () => {
+    expect(parseAssertion(' successRate >= 99 ')).toEqual({
+      expression: 'successRate >= 99',
+      metric: 'successRate',
+      operator: '>=',
+      threshold: 99,
+      unit: '%'
+    });
+  });
+
+  it('normalises = to ==', () => {
+    expect(parseAssertion('failedTransactions=0').operator).toBe('==');
+  });
+
+  it('converts latency thresholds given in seconds to ms', () => {
+    expect(parseAssertion('p95Inclusion<3s')).toMatchObject({ metric: 'p95Inclusion', threshold: 3000, unit: 'ms' });
+    expect(parseAssertion('inclusionLatency.p99<=4500ms')).toMatchObject({ threshold: 4500, unit: 'ms' });
+    expect(parseAssertion('avgSubmit<100')).toMatchObject({ threshold: 100, unit: 'ms' });
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseAssertion('successRate')).toThrow('Invalid assertion');
+    expect(() => parseAssertion('successRate=>99')).toThrow('Invalid assertion');
+  });
+
+  it('rejects unknown metrics, including inherited object properties', () => {
+    expect(() => parseAssertion('throughput>1')).toThrow('Unknown metric in assertion: throughput');
+    expect(() => parseAssertion('toString>=1')).toThrow('Unknown metric in assertion: toString');
+    expect(() => parseAssertion('constructor>=1')).toThrow('Unknown metric in assertion: constructor');
+    expect(() => parseAssertion('p42Inclusion<1s')).toThrow('Unknown metric in assertion');
+  });
+
+  it('rejects units that do not match the metric', () => {
+    expect(() => parseAssertion('averageTPS>1s')).toThrow('is not a duration');
+    expect(() => parseAssertion('p95Inclusion<50%')).toThrow('is not a percentage');
+  });
+});
+
+describe('evaluateAssertions', () => {
+  it('checks each assertion against the final metrics', () => {
+    const results = evaluateAssertions(
+      ['successRate>=99', 'p95Inclusion<3s', 'averageTPS>=200', 'retries==2'].map(parseAssertion),
+      metrics()
+    );
+
+    expect(results.map(result => [result.metric, result.actual, result.passed])).toEqual([
+      ['successRate', 99, true],
+      ['p95Inclusion', 2500, true],
+      ['averageTPS', 150, false],
+      ['retries', 2, true]
+    ]);
+  });
+
+  it('fails assertions on metrics without a value', () => {
+    const [mempool, rate] = evaluateAssertions(
+      [parseAssertion('p95Mempool<1s'), parseAssertion('successRate>=0')],
+      metrics({ totalTransactions: 0, successfulTransactions: 0 })
+    );
+
+    expect(mempool).toMatchObject({ actual: null, passed: false });
+    expect(rate).toMatchObject({ actual: null, passed: false });
+  });
+
+  it('treats latency without samples as missing', () => {
+    const [result] = evaluateAssertions([parseAssertion('p95Inclusion<3s')], metrics({ inclusionLatency: latency(0, 0) }));
+
+    expect(result).toMatchObject({ actual: null, passed: false });
+  });
+});
@@ -0,0 +1,126 @@
+import { Assertion, AssertionOperator, AssertionResult, LoadTestMetrics, MetricUnit } from '../types';
+
+interface AssertionMetric {
+  unit: MetricUnit;
+  value: (metrics: LoadTestMetrics) => number | undefined;
+}
+
+// <metric><operator><value>[unit] เช่น successRate>=99, p95Inclusion<3s
+const EXPRESSION_PATTERN = /^\s*([A-Za-z][\w.]*)\s*(>=|<=|==|=|>|<)\s*(-?\d+(?:\.\d+)?)\s*(ms|s|%)?\s*$/;
+
+type LatencyKey = 'submitLatency' | 'inclusionLatency' | 'mempoolLatency';
+type LatencyStat = 'p50' | 'p90' | 'p95' | 'p99' | 'min' | 'max' | 'average';
+
+const LATENCY_KINDS: Record<string, LatencyKey> = { Submit: 'submitLatency', Inclusion: 'inclusionLatency', Mempool: 'mempoolLatency' };
+const LATENCY_STATS: Record<string, LatencyStat> = { p50: 'p50', p90: 'p90', p95: 'p95', p99: 'p99', min: 'min', max: 'max', avg: 'average', average: 'average' };
+
+const METRICS: Record<string, AssertionMetric> = {
+  successRate: {
+    unit: '%',
+    value: m => m.totalTransactions > 0 ? m.successfulTransactions / m.totalTransactions * 100 : undefined
+  },
+  failureRate: {
+    unit: '%',
+    value: m => m.totalTransactions > 0 ? m.failedTransactions / m.totalTransactions * 100 : undefined
+  },
+  averageTPS: { unit: 'tx/s', value: m => m.averageTPS },
+  peakTPS: { unit: 'tx/s', value: m => m.peakTPS },
+  offeredTPS: { unit: 'tx/s', value: m => m.offeredTPS },
+  chainTPS: { unit: 'tx/s', value: m => m.chainStats?.ownTPS },
+  'chainStats.ownTPS': { unit: 'tx/s', value: m => m.chainStats?.ownTPS },
+  totalTransactions: { unit: 'count', value: m => m.totalTransactions },
+  successfulTransactions: { unit: 'count', value: m => m.successfulTransactions },
+  failedTransactions: { unit: 'count', value: m => m.failedTransactions },
+  pendingTransactions: { unit: 'count', value: m => m.pendingTransactions },
+  retries: { unit: 'count', value: m => m.retries },
+  nonceGaps: { unit: 'count', value: m => m.nonceStats?.gapsDetected },
+  'nonceStats.gapsDetected': { unit: 'count', value: m => m.nonceStats?.gapsDetected },
+  averageConfirmationTime: { unit: 'ms', value: m => m.averageConfirmationTime }
+};
+
+/**
+ * แปลงข้อความ assertion เช่น "successRate>=99", "p95Inclusion<3s" หรือ "inclusionLatency.p95<=3000ms"
+ */
+export function parseAssertion(expression: string): Assertion {
+  const match = EXPRESSION_PATTERN.exec(expression);
+  if (!match) {
+    throw new Error(`Invalid assertion: ${expression} (expected <metric><op><value>, e.g. successRate>=99 or p95Inclusion<3s)`);
+  }
+  const [, metric, operator, value, suffix] = match;
+  const definition = findMetric(metric!);
+  if (!definition) {
+    throw new Error(`Unknown metric in assertion: ${metric} (available: ${Object.keys(METRICS).join(', ')}, or latency such as p95Inclusion, p99Submit, avgMempool)`);
+  }
+
+  let threshold = Number(value);
+  if (suffix === 's' || suffix === 'ms') {
+    if (definition.unit !== 'ms') {
+      throw new Error(`Invalid assertion: ${expression} (${metric} is not a duration)`);
+    }
+    threshold = suffix === 's' ? threshold * 1000 : threshold;
+  } else if (suffix === '%' && definition.unit !== '%') {
+    throw new Error(`Invalid assertion: ${expression} (${metric} is not a percentage)`);
+  }
+
+  return {
+    expression: expression.trim(),
+    metric: metric!,
+    operator: operator === '=' ? '==' : operator as AssertionOperator,
+    threshold,
+    unit: definition.unit
+  };
+}
+
+/**
+ * ตรวจ assertions กับ metrics สุดท้ายของการทดสอบ (metric ที่ไม่มีค่าถือว่าไม่ผ่าน)
+ */
+export function evaluateAssertions(assertions: Assertion[], metrics: LoadTestMetrics): AssertionResult[] {
+  return assertions.map(assertion => {
+    const actual = findMetric(assertion.metric)!.value(metrics);
+    return {
+      ...assertion,
+      actual: actual ?? null,
+      passed: actual !== undefined && compare(actual, assertion.operator, assertion.threshold)
+    };
+  });
+}
+
+/**
+ * หา metric จากชื่อ รวมถึง latency แบบ <stat><Kind> (p95Inclusion) และ <kind>Latency.<stat> (inclusionLatency.p95)
+ */
+function findMetric(name: string): AssertionMetric | undefined {
+  // ตรวจเฉพาะ keys ของ METRICS เอง ไม่ให้ชื่อจาก Object.prototype เช่น toString ผ่าน
+  if (Object.prototype.hasOwnProperty.call(METRICS, name)) {
+    return METRICS[name];
+  }
+
+  const short = /^(p50|p90|p95|p99|min|max|avg|average)(Submit|Inclusion|Mempool)$/.exec(name);
+  const dotted = /^(submitLatency|inclusionLatency|mempoolLatency)\.(p50|p90|p95|p99|min|max|average)$/.exec(name);
+  if (!short && !dotted) {
+    return undefined;
+  }
+  const key = short ? LATENCY_KINDS[short[2]!]! : dotted![1] as LatencyKey;
+  const stat = short ? LATENCY_STATS[short[1]!]! : dotted![2] as LatencyStat;
+  return {
+    unit: 'ms',
+    value: m => {
+      const stats = m[key];
+      return stats && stats.count > 0 ? stats[stat] : undefined;
+    }
+  };
+}
+
+function compare(actual: number, operator: AssertionOperator, threshold: number): boolean {
+  switch (operator) {
+    case '>=':
+      return actual >= threshold;
+    case '<=':
+      return actual <= threshold;
+    case '>':
+      return actual > threshold;
+    case '<':
+      return actual < threshold;
+    case '==':
+      return actual === threshold;
+  }
+}
@@ -0,0 +1,107 @@
+import { ethers } from 'ethers';
+import { createProvider } from './provider';
+import { BlockStats, ChainStats } from '../types';
+
+// จำนวน blocks ที่ดึงพร้อมกันระหว่าง scan
+const SCAN_CONCURRENCY = 10;
+
+/**
+ * Class สำหรับไล่อ่าน blocks ในช่วงการทดสอบ เพื่อวัด throughput จากฝั่ง chain
+ */
+export class BlockScanner {
+  private provider: ethers.JsonRpcApiProvider;
+
+  constructor(rpcUrl: string) {
+    this.provider = createProvider(rpcUrl);
+  }
+
+  /**
+   * Block number ล่าสุด
+   */
+  async getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+
+  /**
+   * Scan blocks ตั้งแต่ startBlock ถึง endBlock และแยก transactions ของการทดสอบ (ownHashes) ออกจากของผู้อื่น
+   */
+  async scan(startBlock: number, endBlock: number, ownHashes: Set<string>): Promise<ChainStats> {
+    // ดึง block ก่อนหน้า startBlock ด้วยเพื่อคำนวณ interval ของ block แรก
+    const firstBlock = Math.max(startBlock - 1, 0);
+    const blocks: ethers.Block[] = [];
+    for (let number = firstBlock; number <= endBlock; number += SCAN_CONCURRENCY) {
+      const chunk = await Promise.all(
+        Array.from({ length: Math.min(SCAN_CONCURRENCY, endBlock - number + 1) }, (_, i) => this.getBlock(number + i))
+      );
+      blocks.push(...chunk);
+    }
+
+    const blockStats: BlockStats[] = [];
+    for (let i = 0; i < blocks.length; i++) {
+      const block = blocks[i]!;
+      if (block.number < startBlock) {
+        continue;
+      }
+      const previous = i > 0 ? blocks[i - 1] : undefined;
+      const ownTransactions = block.transactions.filter(hash => ownHashes.has(hash.toLowerCase())).length;
+      const gasLimit = Number(block.gasLimit);
+
+      blockStats.push({
+        number: block.number,
+        timestamp: block.timestamp,
+        interval: previous ? block.timestamp - previous.timestamp : 0,
+        transactionCount: block.transactions.length,
+        ownTransactions,
+        foreignTransactions: block.transactions.length - ownTransactions,
+        gasUsed: Number(block.gasUsed),
+        gasLimit,
+        gasUtilization: gasLimit > 0 ? Number(block.gasUsed) / gasLimit : 0
+      });
+    }
+
+    return summarize(startBlock, endBlock, blockStats, blocks[0]?.timestamp ?? 0);
+  }
+
+  /**
+   * ปิดการเชื่อมต่อ
+   */
+  disconnect(): void {
+    this.provider.destroy();
+  }
+
+  private async getBlock(number: number): Promise<ethers.Block> {
+    const block = await this.provider.getBlock(number);
+    if (!block) {
+      throw new Error(`Block ${number} not found`);
+    }
+    return block;
+  }
+}
+
+/**
+ * สรุปสถิติของ blocks ที่ scan (TPS คำนวณจาก block timestamps ไม่ใช่เวลาฝั่ง client)
+ */
+function summarize(startBlock: number, endBlock: number, blocks: BlockStats[], baseTimestamp: number): ChainStats {
+  const totalTransactions = blocks.reduce((sum, block) => sum + block.transactionCount, 0);
+  const ownTransactions = blocks.reduce((sum, block) => sum + block.ownTransactions, 0);
+  const lastBlock = blocks[blocks.length - 1];
+  const timeSpan = lastBlock ? lastBlock.timestamp - baseTimestamp : 0;
+  const average = (values: number[]): number =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    startBlock,
+    endBlock,
+    blockCount: blocks.length,
+    totalTransactions,
+    ownTransactions,
+    foreignTransactions: totalTransactions - ownTransactions,
+    averageTransactionsPerBlock: average(blocks.map(block => block.transactionCount)),
+    averageGasUtilization: average(blocks.map(block => block.gasUtilization)),
+    averageBlockInterval: average(blocks.map(block => block.interval)),
+    timeSpan,
+    tps: timeSpan > 0 ? totalTransactions / timeSpan : 0,
+    ownTPS: timeSpan > 0 ? ownTransactions / timeSpan : 0,
+    blocks
+  };
+}
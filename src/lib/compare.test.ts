@@ -0,0 +1,112 @@
+import { compareResults, DEFAULT_TOLERANCE, parseTolerances } from './compare';
+import { ComparisonResult, LatencyStats, LoadTestConfig, LoadTestMetrics, MetricComparison, TestResults } from '../types';
+
+function latency(p95: number): LatencyStats {
+  return { count: 100, min: p95 / 4, max: p95 * 2, average: p95 / 2, p50: p95 / 2, p90: p95 * 0.9, p95, p99: p95 * 1.5, histogram: [] };
+}
+
+/**
+ * ไฟล์ results ที่มีเฉพาะ metrics ที่ใช้เปรียบเทียบ (ค่าที่ไม่ระบุเป็นการทดสอบที่สำเร็จทั้งหมดที่ 100 tx/s)
+ */
+function results(metrics: Partial<LoadTestMetrics> = {}, config: Partial<LoadTestConfig> = {}): TestResults {
+  return {
+    timestamp: '2026-01-01T00:00:00.000Z',
+    config: { rpcUrl: 'http://localhost:8545', targetAddress: '0x742d35Cc6634C0532925A3B8D4C9dB96C4B4d8B6', concurrency: 10, value: '0', ...config } as LoadTestConfig,
+    metrics: {
+      totalTransactions: 1000,
+      successfulTransactions: 1000,
+      failedTransactions: 0,
+      pendingTransactions: 0,
+      averageTPS: 100,
+      peakTPS: 120,
+      retries: 0,
+      inclusionLatency: latency(2000),
+      ...metrics
+    } as LoadTestMetrics,
+    summary: { successRate: '100.00%', avgTPS: '100.00', peakTPS: '120.00' }
+  } as TestResults;
+}
+
+function find(comparison: ComparisonResult, metric: string): MetricComparison | undefined {
+  return comparison.metrics.find(entry => entry.metric === metric);
+}
+
+describe('parseTolerances', () => {
+  it('uses the default tolerance when none is given', () => {
+    expect(parseTolerances()).toEqual({ default: DEFAULT_TOLERANCE, metrics: {} });
+  });
+
+  it('parses a global tolerance and per-metric overrides', () => {
+    expect(parseTolerances(['5', 'inclusionLatency.p95=20'])).toEqual({ default: 5, metrics: { 'inclusionLatency.p95': 20 } });
+  });
+
+  it('rejects invalid values and metrics that are not gated', () => {
+    expect(() => parseTolerances(['-1'])).toThrow('Invalid tolerance');
+    expect(() => parseTolerances(['fast'])).toThrow('Invalid tolerance');
+    expect(() => parseTolerances(['retries=5'])).toThrow('Unknown metric in tolerance: retries');
+  });
+});
+
+describe('compareResults', () => {
+  it('reports no regressions for identical runs', () => {
+    const comparison = compareResults(results(), results());
+
+    expect(comparison.regressions).toBe(0);
+    expect(find(comparison, 'averageTPS')).toMatchObject({ baseline: 100, candidate: 100, delta: 0, percent: 0, regression: false });
+  });
+
+  it('flags a throughput drop beyond the tolerance as a percentage of the baseline', () => {
+    expect(find(compareResults(results(), results({ averageTPS: 91 })), 'averageTPS')!.regression).toBe(false);
+    expect(find(compareResults(results(), results({ averageTPS: 89 })), 'averageTPS')!.regression).toBe(true);
+  });
+
+  it('flags a latency increase beyond the tolerance', () => {
+    const comparison = compareResults(results(), results({ inclusionLatency: latency(2400) }), parseTolerances(['inclusionLatency.p95=15']));
+
+    expect(find(comparison, 'inclusionLatency.p95')).toMatchObject({ direction: 'lower', tolerance: 15, regression: true });
+  });
+
+  it('does not flag improvements', () => {
+    const comparison = compareResults(results(), results({ averageTPS: 200, inclusionLatency: latency(500) }));
+
+    expect(comparison.regressions).toBe(0);
+  });
+
+  it('compares the success rate in percentage points', () => {
+    const baseline = results({ successfulTransactions: 500 });
+
+    // 50% → 44% ลดลง 12% ของค่าเดิม แต่แค่ 6 percentage points
+    expect(find(compareResults(baseline, results({ successfulTransactions: 440 })), 'successRate')!.regression).toBe(false);
+    expect(find(compareResults(baseline, results({ successfulTransactions: 390 })), 'successRate')!.regression).toBe(true);
+  });
+
+  it('reports a gated metric missing from the candidate as a regression', () => {
+    // ไม่มี transaction ใดได้ receipt จึงไม่มี inclusion latency
+    const comparison = compareResults(results(), results({ inclusionLatency: { ...latency(0), count: 0 } }));
+
+    expect(find(comparison, 'inclusionLatency.p95')).toMatchObject({ baseline: 2000, candidate: null, delta: null, regression: true });
+    expect(comparison.regressions).toBe(3);
+  });
+
+  it('skips metrics the baseline does not have', () => {
+    const comparison = compareResults(results(), results({ mempoolLatency: latency(100) }));
+
+    expect(find(comparison, 'mempoolLatency.p95')).toBeUndefined();
+  });
+
+  it('does not gate informational metrics', () => {
+    const comparison = compareResults(results(), results({ retries: 500 }));
+
+    expect(find(comparison, 'retries')).toMatchObject({ regression: false });
+    expect(find(comparison, 'retries')!.direction).toBeUndefined();
+  });
+
+  it('lists settings that differ, ignoring RPC URLs and credentials', () => {
+    const comparison = compareResults(
+      results({}, { rpcUrl: 'http://a:8545', privateKey: '[REDACTED]', concurrency: 10 }),
+      results({}, { rpcUrl: 'http://b:8545', concurrency: 20, rate: 100 })
+    );
+
+    expect(comparison.configDifferences.sort()).toEqual(['concurrency', 'rate']);
+  });
+});
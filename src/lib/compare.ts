@@ -0,0 +1,157 @@
+import { CompareTolerances, ComparisonResult, LoadTestConfig, LoadTestMetrics, MetricComparison, MetricDirection, MetricUnit, TestResults } from '../types';
+
+// % ที่ยอมให้ metric แย่ลงได้ถ้าไม่ได้กำหนด
+export const DEFAULT_TOLERANCE = 10;
+
+// settings ที่ต่างกันได้ระหว่างการทดสอบโดยไม่กระทบการเปรียบเทียบ (node ที่ทดสอบ และ credentials)
+const IGNORED_CONFIG_KEYS: ReadonlySet<keyof LoadTestConfig> = new Set(['rpcUrl', 'rpcEndpoints', 'wsUrl', 'privateKey', 'mnemonic', 'keyFile']);
+
+interface MetricDefinition {
+  metric: string;
+  label: string;
+  unit: MetricUnit;
+  direction?: MetricDirection;
+  value: (metrics: LoadTestMetrics) => number | undefined;
+}
+
+const METRICS: MetricDefinition[] = [
+  { metric: 'totalTransactions', label: 'Total Transactions', unit: 'count', value: m => m.totalTransactions },
+  {
+    metric: 'successRate',
+    label: 'Success Rate',
+    unit: '%',
+    direction: 'higher',
+    value: m => m.totalTransactions > 0 ? m.successfulTransactions / m.totalTransactions * 100 : undefined
+  },
+  { metric: 'failedTransactions', label: 'Failed Transactions', unit: 'count', value: m => m.failedTransactions },
+  { metric: 'averageTPS', label: 'Average TPS', unit: 'tx/s', direction: 'higher', value: m => m.averageTPS },
+  { metric: 'peakTPS', label: 'Peak TPS', unit: 'tx/s', direction: 'higher', value: m => m.peakTPS },
+  { metric: 'offeredTPS', label: 'Offered TPS', unit: 'tx/s', value: m => m.offeredTPS },
+  { metric: 'chainStats.ownTPS', label: 'Chain TPS', unit: 'tx/s', direction: 'higher', value: m => m.chainStats?.ownTPS },
+  {
+    metric: 'chainStats.averageGasUtilization',
+    label: 'Gas Utilization',
+    unit: '%',
+    value: m => m.chainStats && m.chainStats.averageGasUtilization * 100
+  },
+  { metric: 'submitLatency.p50', label: 'Submit p50', unit: 'ms', direction: 'lower', value: m => latency(m, 'submitLatency', 'p50') },
+  { metric: 'submitLatency.p95', label: 'Submit p95', unit: 'ms', direction: 'lower', value: m => latency(m, 'submitLatency', 'p95') },
+  { metric: 'submitLatency.p99', label: 'Submit p99', unit: 'ms', direction: 'lower', value: m => latency(m, 'submitLatency', 'p99') },
+  { metric: 'inclusionLatency.p50', label: 'Inclusion p50', unit: 'ms', direction: 'lower', value: m => latency(m, 'inclusionLatency', 'p50') },
+  { metric: 'inclusionLatency.p95', label: 'Inclusion p95', unit: 'ms', direction: 'lower', value: m => latency(m, 'inclusionLatency', 'p95') },
+  { metric: 'inclusionLatency.p99', label: 'Inclusion p99', unit: 'ms', direction: 'lower', value: m => latency(m, 'inclusionLatency', 'p99') },
+  { metric: 'mempoolLatency.p95', label: 'Mempool p95', unit: 'ms', direction: 'lower', value: m => latency(m, 'mempoolLatency', 'p95') },
+  { metric: 'retries', label: 'Retries', unit: 'count', value: m => m.retries },
+  { metric: 'nonceStats.gapsDetected', label: 'Nonce Gaps', unit: 'count', value: m => m.nonceStats?.gapsDetected }
+];
+
+// metrics ที่ตรวจ regression (กำหนด tolerance ได้)
+const GATED_METRICS = METRICS.filter(definition => definition.direction).map(definition => definition.metric);
+
+/**
+ * แปลง --tolerance ("5" = ทุก metric, "inclusionLatency.p95=20" = เฉพาะ metric)
+ */
+export function parseTolerances(specs: string[] = []): CompareTolerances {
+  const tolerances: CompareTolerances = { default: DEFAULT_TOLERANCE, metrics: {} };
+  for (const spec of specs) {
+    const separator = spec.lastIndexOf('=');
+    const metric = separator === -1 ? undefined : spec.slice(0, separator).trim();
+    const percent = Number(separator === -1 ? spec : spec.slice(separator + 1));
+    if (spec.trim() === '' || !Number.isFinite(percent) || percent < 0) {
+      throw new Error(`Invalid tolerance: ${spec} (expected <percent> or <metric>=<percent>)`);
+    }
+    if (metric === undefined) {
+      tolerances.default = percent;
+    } else if (GATED_METRICS.includes(metric)) {
+      tolerances.metrics[metric] = percent;
+    } else {
+      throw new Error(`Unknown metric in tolerance: ${metric} (available: ${GATED_METRICS.join(', ')})`);
+    }
+  }
+  return tolerances;
+}
+
+/**
+ * เปรียบเทียบ metrics ของสองการทดสอบ และตรวจว่า candidate แย่ลงเกิน tolerance หรือไม่
+ */
+export function compareResults(
+  baseline: TestResults,
+  candidate: TestResults,
+  tolerances: CompareTolerances = { default: DEFAULT_TOLERANCE, metrics: {} }
+): ComparisonResult {
+  const metrics: MetricComparison[] = [];
+  for (const definition of METRICS) {
+    const before = definition.value(baseline.metrics);
+    const after = definition.value(candidate.metrics);
+    if (before === undefined) {
+      continue;
+    }
+    if (after === undefined) {
+      // metric ที่ตรวจ regression หายไปจาก candidate (เช่นไม่มี transaction ใดได้ receipt) ถือว่าแย่ลง
+      if (definition.direction) {
+        metrics.push({
+          metric: definition.metric,
+          label: definition.label,
+          unit: definition.unit,
+          direction: definition.direction,
+          baseline: before,
+          candidate: null,
+          delta: null,
+          percent: null,
+          tolerance: tolerances.metrics[definition.metric] ?? tolerances.default,
+          regression: true
+        });
+      }
+      continue;
+    }
+
+    const delta = after - before;
+    const percent = before !== 0 ? delta / Math.abs(before) * 100 : null;
+    const comparison: MetricComparison = {
+      metric: definition.metric,
+      label: definition.label,
+      unit: definition.unit,
+      baseline: before,
+      candidate: after,
+      delta,
+      percent,
+      regression: false
+    };
+    if (definition.direction) {
+      // ค่าที่แย่ลง (บวก = แย่ลง) เทียบกับ tolerance เป็น % ของ baseline
+      // ยกเว้น metrics ที่เป็น % อยู่แล้ว (successRate) เทียบเป็น percentage points เช่น 100% → 91% แย่ลง 9 points
+      const tolerance = tolerances.metrics[definition.metric] ?? tolerances.default;
+      const worse = definition.direction === 'higher' ? -delta : delta;
+      comparison.direction = definition.direction;
+      comparison.tolerance = tolerance;
+      if (definition.unit === '%') {
+        comparison.regression = worse > tolerance;
+      } else {
+        comparison.regression = percent === null ? worse > 0 : worse / Math.abs(before) * 100 > tolerance;
+      }
+    }
+    metrics.push(comparison);
+  }
+
+  return {
+    metrics,
+    regressions: metrics.filter(comparison => comparison.regression).length,
+    configDifferences: diffConfig(baseline.config, candidate.config)
+  };
+}
+
+function latency(metrics: LoadTestMetrics, key: 'submitLatency' | 'inclusionLatency' | 'mempoolLatency', percentile: 'p50' | 'p95' | 'p99'): number | undefined {
+  const stats = metrics[key];
+  return stats && stats.count > 0 ? stats[percentile] : undefined;
+}
+
+/**
+ * settings ที่ต่างกัน (ไม่รวม RPC URLs และ credentials)
+ */
+function diffConfig(baseline: LoadTestConfig, candidate: LoadTestConfig): (keyof LoadTestConfig)[] {
+  const keys = [...new Set([...Object.keys(baseline), ...Object.keys(candidate)])]
+    .filter((key): key is keyof LoadTestConfig => key in baseline || key in candidate);
+  return keys.filter(key =>
+    !IGNORED_CONFIG_KEYS.has(key) && JSON.stringify(baseline[key]) !== JSON.stringify(candidate[key])
+  );
+}
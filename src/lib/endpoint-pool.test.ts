@@ -0,0 +1,73 @@
+import { EndpointPool } from './endpoint-pool';
+import { EndpointStrategy, RpcEndpoint, TransactionResult } from '../types';
+
+const A = 'http://node-a:8545';
+const B = 'http://node-b:8545';
+const C = 'http://node-c:8545';
+
+describe('EndpointPool', () => {
+  let pool: EndpointPool;
+
+  // provider ไม่เชื่อมต่อจนกว่าจะส่ง request จึงสร้าง pool ได้โดยไม่มี node จริง
+  function createPool(endpoints: RpcEndpoint[], strategy?: EndpointStrategy): EndpointPool {
+    pool = new EndpointPool(endpoints, strategy);
+    return pool;
+  }
+
+  function pick(count: number, wallet?: string): string[] {
+    return Array.from({ length: count }, () => pool.select(wallet).url);
+  }
+
+  afterEach(() => {
+    pool?.disconnect();
+  });
+
+  it('requires at least one endpoint and positive weights', () => {
+    expect(() => new EndpointPool([])).toThrow('At least one RPC endpoint is required');
+    expect(() => new EndpointPool([{ url: A, weight: 0 }])).toThrow(`Invalid weight for RPC endpoint ${A}: 0`);
+  });
+
+  it('alternates between endpoints round-robin', () => {
+    createPool([{ url: A }, { url: B }, { url: C }]);
+
+    expect(pick(4)).toEqual([A, B, C, A]);
+  });
+
+  it('spreads submissions by weight without long runs on one endpoint', () => {
+    createPool([{ url: A, weight: 3 }, { url: B, weight: 1 }], 'weighted');
+
+    expect(pick(8)).toEqual([A, A, B, A, A, A, B, A]);
+  });
+
+  it('keeps each wallet on one endpoint when sticky', () => {
+    createPool([{ url: A }, { url: B }], 'sticky');
+    const first = pool.select('0xAbC').url;
+
+    expect(pick(3, '0xabc')).toEqual([first, first, first]);
+    expect(pool.select('0xdef').url).not.toBe(first);
+  });
+
+  it('counts accepted and failed submissions per endpoint', () => {
+    createPool([{ url: A }, { url: B }]);
+    const [a, b] = pool.getEndpoints();
+    const result = (status: TransactionResult['status'], submitLatency?: number): TransactionResult => ({
+      hash: '0x',
+      status,
+      timestamp: 0,
+      ...(submitLatency !== undefined && { submitLatency })
+    });
+
+    pool.record(a!, result('pending', 10));
+    pool.record(a!, result('pending', 30));
+    pool.record(a!, result('failed'));
+    pool.record(b!, result('pending', 20));
+
+    expect(pool.getCounts()).toEqual([
+      { url: A, weight: 1, sent: 3, accepted: 2, failed: 1 },
+      { url: B, weight: 1, sent: 1, accepted: 1, failed: 0 }
+    ]);
+    const [statsA] = pool.getStats();
+    expect(statsA!.errorRate).toBeCloseTo(1 / 3);
+    expect(statsA!.submitLatency).toMatchObject({ count: 2, min: 10, max: 30 });
+  });
+});
@@ -0,0 +1,157 @@
+import { ethers } from 'ethers';
+import { createSendProvider } from './provider';
+import { summarizeLatencies } from './latency';
+import { EndpointCounts, EndpointStats, EndpointStrategy, RpcEndpoint, TransactionResult } from '../types';
+
+/**
+ * RPC endpoint สำหรับส่ง transactions
+ */
+export interface Endpoint {
+  url: string;
+  weight: number;
+  provider: ethers.JsonRpcApiProvider;
+}
+
+interface EndpointState {
+  endpoint: Endpoint;
+  currentWeight: number; // สำหรับ smooth weighted round-robin
+  sent: number;
+  accepted: number;
+  failed: number;
+  submitLatencies: number[];
+}
+
+/**
+ * Class สำหรับกระจายการส่ง transactions ไปยัง RPC endpoints หลายตัว และเก็บสถิติแยกตาม endpoint
+ *
+ * กลยุทธ์: round-robin (สลับทีละ endpoint), weighted (ตามสัดส่วน weight แบบ smooth weighted round-robin)
+ * และ sticky (แต่ละ wallet ผูกกับ endpoint เดียวตลอดการทดสอบ โดยกระจาย wallets ตาม weight)
+ */
+export class EndpointPool {
+  private states: EndpointState[];
+  private strategy: EndpointStrategy;
+  private cursor: number = 0;
+  private assignments: Map<string, EndpointState> = new Map();
+
+  constructor(endpoints: RpcEndpoint[], strategy: EndpointStrategy = 'round-robin') {
+    if (endpoints.length === 0) {
+      throw new Error('At least one RPC endpoint is required');
+    }
+    for (const { url, weight } of endpoints) {
+      if (weight !== undefined && !(weight > 0)) {
+        throw new Error(`Invalid weight for RPC endpoint ${url}: ${weight}`);
+      }
+    }
+
+    this.strategy = strategy;
+    this.states = endpoints.map(({ url, weight }) => ({
+      endpoint: { url, weight: weight ?? 1, provider: createSendProvider(url) },
+      currentWeight: 0,
+      sent: 0,
+      accepted: 0,
+      failed: 0,
+      submitLatencies: []
+    }));
+  }
+
+  get size(): number {
+    return this.states.length;
+  }
+
+  getEndpoints(): Endpoint[] {
+    return this.states.map(state => state.endpoint);
+  }
+
+  /**
+   * เลือก endpoint สำหรับการส่งครั้งถัดไปจาก wallet ที่ระบุ
+   */
+  select(wallet?: string): Endpoint {
+    if (this.strategy === 'sticky' && wallet) {
+      const key = wallet.toLowerCase();
+      let state = this.assignments.get(key);
+      if (!state) {
+        state = this.nextWeighted();
+        this.assignments.set(key, state);
+      }
+      return state.endpoint;
+    }
+    if (this.strategy === 'round-robin') {
+      return this.states[this.cursor++ % this.states.length]!.endpoint;
+    }
+    return this.nextWeighted().endpoint;
+  }
+
+  /**
+   * บันทึกผลการส่งผ่าน endpoint
+   */
+  record(endpoint: Endpoint, result: TransactionResult): void {
+    const state = this.states.find(state => state.endpoint === endpoint);
+    if (!state) {
+      return;
+    }
+    state.sent++;
+    if (result.status === 'failed') {
+      state.failed++;
+    } else {
+      state.accepted++;
+    }
+    if (result.submitLatency !== undefined) {
+      state.submitLatencies.push(result.submitLatency);
+    }
+  }
+
+  /**
+   * จำนวนการส่งแยกตาม endpoint (ไม่สรุป latency จึงเรียกระหว่างการทดสอบได้บ่อย)
+   */
+  getCounts(): EndpointCounts[] {
+    return this.states.map(state => this.countsOf(state));
+  }
+
+  /**
+   * สถิติแยกตาม endpoint
+   */
+  getStats(): EndpointStats[] {
+    return this.states.map(state => ({
+      ...this.countsOf(state),
+      errorRate: state.sent > 0 ? state.failed / state.sent : 0,
+      submitLatency: summarizeLatencies(state.submitLatencies)
+    }));
+  }
+
+  /**
+   * ปิดการเชื่อมต่อทุก endpoint
+   */
+  disconnect(): void {
+    for (const { endpoint } of this.states) {
+      if (!endpoint.provider.destroyed) {
+        endpoint.provider.destroy();
+      }
+    }
+  }
+
+  /**
+   * Smooth weighted round-robin: กระจายตามสัดส่วน weight โดยไม่ส่งไป endpoint เดียวติดกันเป็นชุด
+   */
+  private nextWeighted(): EndpointState {
+    const totalWeight = this.states.reduce((sum, state) => sum + state.endpoint.weight, 0);
+    let selected = this.states[0]!;
+    for (const state of this.states) {
+      state.currentWeight += state.endpoint.weight;
+      if (state.currentWeight > selected.currentWeight) {
+        selected = state;
+      }
+    }
+    selected.currentWeight -= totalWeight;
+    return selected;
+  }
+
+  private countsOf(state: EndpointState): EndpointCounts {
+    return {
+      url: state.endpoint.url,
+      weight: state.endpoint.weight,
+      sent: state.sent,
+      accepted: state.accepted,
+      failed: state.failed
+    };
+  }
+}
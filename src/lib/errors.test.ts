@@ -0,0 +1,60 @@
+import { ethers } from 'ethers';
+import { classifyError, describeError, isAlreadyKnown, isRetryable } from './errors';
+
+describe('classifyError', () => {
+  it.each([
+    ['nonce too low: next nonce 5, tx nonce 3', 'nonce-too-low'],
+    ['replacement transaction underpriced', 'replacement-underpriced'],
+    ['transaction underpriced', 'underpriced'],
+    ['transaction underpriced: tip needed 1000000000, tip permitted 1', 'underpriced'],
+    ['insufficient funds for gas * price + value', 'insufficient-funds'],
+    ['intrinsic gas too low', 'gas-too-low'],
+    ['429 Too Many Requests', 'rate-limited'],
+    ['request timed out', 'timeout'],
+    ['execution reverted', 'reverted'],
+    ['something else entirely', 'unknown']
+  ])('classifies "%s" as %s', (message, category) => {
+    expect(classifyError(new Error(message))).toBe(category);
+  });
+
+  it('uses the ethers error code before the message', () => {
+    const error = ethers.makeError('replacement fee too low', 'REPLACEMENT_UNDERPRICED', { transaction: {} });
+    expect(classifyError(error)).toBe('replacement-underpriced');
+    expect(classifyError(ethers.makeError('timeout', 'TIMEOUT', { operation: 'send', reason: 'timeout' }))).toBe('timeout');
+  });
+
+  it('classifies plain strings such as JSON-RPC error messages', () => {
+    expect(classifyError('transaction underpriced')).toBe('underpriced');
+  });
+
+  it('does not treat already known as a nonce error', () => {
+    expect(classifyError(new Error('already known'))).toBe('unknown');
+  });
+});
+
+describe('isAlreadyKnown', () => {
+  it.each(['already known', 'known transaction: 0xabc', 'Transaction already imported', 'AlreadyKnown'])('matches "%s"', message => {
+    expect(isAlreadyKnown(new Error(message))).toBe(true);
+  });
+
+  it('does not match other errors', () => {
+    expect(isAlreadyKnown(new Error('nonce too low'))).toBe(false);
+  });
+});
+
+describe('isRetryable', () => {
+  it('retries only transient RPC problems', () => {
+    expect(isRetryable('rate-limited')).toBe(true);
+    expect(isRetryable('timeout')).toBe(true);
+    expect(isRetryable('underpriced')).toBe(false);
+    expect(isRetryable('nonce-too-low')).toBe(false);
+    expect(isRetryable(undefined)).toBe(false);
+  });
+});
+
+describe('describeError', () => {
+  it('keeps the message together with its category', () => {
+    expect(describeError(new Error('transaction underpriced'))).toEqual({ error: 'transaction underpriced', errorCategory: 'underpriced' });
+    expect(describeError(42)).toEqual({ error: 'Unknown error', errorCategory: 'unknown' });
+  });
+});
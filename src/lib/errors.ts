@@ -0,0 +1,69 @@
+import { ethers } from 'ethers';
+import { ErrorCategory } from '../types';
+
+// รูปแบบข้อความ error ของ node ต่างๆ (geth, erigon, nethermind, ganache, RPC providers) แยกตามประเภท
+const ERROR_PATTERNS: [ErrorCategory, RegExp][] = [
+  ['nonce-too-low', /nonce too low|nonce has already been used|correct nonce/i],
+  ['replacement-underpriced', /replacement (transaction|fee).*underpriced/i],
+  ['underpriced', /underpriced|fee too low/i],
+  ['insufficient-funds', /insufficient funds/i],
+  ['gas-too-low', /intrinsic gas too low|gas too low|out of gas|gas limit is too low/i],
+  ['rate-limited', /\b429\b|too many requests|rate limit|request limit|exceeded .*capacity/i],
+  ['timeout', /timeout|timed out|ETIMEDOUT|ECONNRESET|socket hang up/i],
+  ['reverted', /revert/i]
+];
+
+// node มี transaction นี้อยู่แล้ว (เช่น ส่งซ้ำหลัง timeout แต่ node ได้รับครั้งแรกแล้ว) ถือว่าส่งสำเร็จ
+const ALREADY_KNOWN_PATTERN = /already known|known transaction|already imported|alreadyknown/i;
+
+// ประเภทที่ส่งซ้ำแล้วมีโอกาสสำเร็จ (ปัญหาชั่วคราวของ RPC ไม่ใช่ของ transaction)
+const RETRYABLE_CATEGORIES: ReadonlySet<ErrorCategory> = new Set(['rate-limited', 'timeout']);
+
+/**
+ * จัดประเภท error ของการส่ง transaction หรือการรอ receipt
+ */
+export function classifyError(error: unknown): ErrorCategory {
+  if (ethers.isError(error, 'NONCE_EXPIRED')) {
+    return 'nonce-too-low';
+  }
+  if (ethers.isError(error, 'REPLACEMENT_UNDERPRICED')) {
+    return 'replacement-underpriced';
+  }
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) {
+    return 'insufficient-funds';
+  }
+  if (ethers.isError(error, 'TIMEOUT')) {
+    return 'timeout';
+  }
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    return 'reverted';
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return ERROR_PATTERNS.find(([, pattern]) => pattern.test(message))?.[0] ?? 'unknown';
+}
+
+/**
+ * ตรวจสอบว่า node ตอบว่ามี transaction เดียวกันอยู่แล้ว (transaction ถูกรับเข้า mempool และจะถูก mine ตามปกติ)
+ */
+export function isAlreadyKnown(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return ALREADY_KNOWN_PATTERN.test(message);
+}
+
+/**
+ * ตรวจสอบว่า error ประเภทนี้ควรส่งซ้ำหรือไม่
+ */
+export function isRetryable(category: ErrorCategory | undefined): boolean {
+  return category !== undefined && RETRYABLE_CATEGORIES.has(category);
+}
+
+/**
+ * แปลง error เป็นข้อความและประเภทสำหรับบันทึกใน TransactionResult
+ */
+export function describeError(error: unknown): { error: string; errorCategory: ErrorCategory } {
+  return {
+    error: error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error',
+    errorCategory: classifyError(error)
+  };
+}
@@ -0,0 +1,52 @@
+import { ethers } from 'ethers';
+import { FeeRefresh } from '../types';
+
+/**
+ * Class สำหรับดึง fee data จาก network โดยเลือกได้ว่าจะดึงทุก transaction หรือครั้งเดียวต่อ block
+ */
+export class FeeOracle {
+  private provider: ethers.Provider;
+  private cached: Promise<ethers.FeeData> | null = null;
+  private listening: boolean = false;
+  private onBlock = (): void => {
+    this.cached = null;
+  };
+
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+  }
+
+  /**
+   * ดึง fee data ตาม refresh mode
+   */
+  async getFeeData(refresh: FeeRefresh = 'per-tx'): Promise<ethers.FeeData> {
+    if (refresh === 'per-tx') {
+      return this.provider.getFeeData();
+    }
+
+    // ล้าง cache ทุกครั้งที่มี block ใหม่ (ไม่รอ subscription เพื่อให้ทุก caller ได้ fee data พร้อมกันตามลำดับ nonce)
+    if (!this.listening) {
+      this.listening = true;
+      void this.provider.on('block', this.onBlock);
+    }
+
+    if (!this.cached) {
+      this.cached = this.provider.getFeeData().catch(error => {
+        this.cached = null;
+        throw error;
+      });
+    }
+    return this.cached;
+  }
+
+  /**
+   * หยุดติดตาม block ใหม่
+   */
+  stop(): void {
+    if (this.listening) {
+      this.listening = false;
+      this.provider.off('block', this.onBlock);
+    }
+    this.cached = null;
+  }
+}
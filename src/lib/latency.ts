@@ -0,0 +1,54 @@
+import { HistogramBucket, LatencyStats } from '../types';
+
+// ขอบบนของแต่ละ bucket ใน histogram (ms) bucket สุดท้ายเก็บค่าที่เกินทั้งหมด
+export const LATENCY_BUCKETS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000, 120000];
+
+/**
+ * สรุป latency samples (ms) เป็น min/percentiles/max และ histogram
+ */
+export function summarizeLatencies(samples: number[]): LatencyStats {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const count = sorted.length;
+
+  return {
+    count,
+    min: sorted[0] ?? 0,
+    average: count > 0 ? sorted.reduce((sum, value) => sum + value, 0) / count : 0,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    max: sorted[count - 1] ?? 0,
+    histogram: histogram(sorted)
+  };
+}
+
+/**
+ * Percentile แบบ nearest-rank จาก samples ที่เรียงแล้ว
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1]!;
+}
+
+/**
+ * นับจำนวน samples ในแต่ละ bucket (upperBound เป็น null สำหรับ bucket ที่เกินขอบบนสุด)
+ */
+function histogram(sorted: number[]): HistogramBucket[] {
+  const buckets: HistogramBucket[] = [
+    ...LATENCY_BUCKETS.map(upperBound => ({ upperBound, count: 0 })),
+    { upperBound: null, count: 0 }
+  ];
+
+  let bucket = 0;
+  for (const value of sorted) {
+    while (bucket < LATENCY_BUCKETS.length && value > LATENCY_BUCKETS[bucket]!) {
+      bucket++;
+    }
+    buckets[bucket]!.count++;
+  }
+  return buckets;
+}
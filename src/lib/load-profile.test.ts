@@ -0,0 +1,54 @@
+import { constantProfile, expectedCount, parseStepsSpec, rampProfile, scheduledOffset, spikeProfile } from './load-profile';
+
+describe('scheduledOffset', () => {
+  it('spaces transactions evenly at a constant rate', () => {
+    const profile = constantProfile(20, 10);
+
+    expect(scheduledOffset(profile, 0)).toBe(0);
+    expect(scheduledOffset(profile, 1)).toBeCloseTo(50);
+    expect(scheduledOffset(profile, 199)).toBeCloseTo(9950);
+    expect(scheduledOffset(profile, 200)).toBeNull();
+  });
+
+  it('never ends for a constant profile without a duration', () => {
+    expect(scheduledOffset(constantProfile(100), 1_000_000)).toBeCloseTo(10_000_000);
+  });
+
+  it('follows the integrated rate of a ramp up', () => {
+    // 0 → 100 tx/s ใน 10 วินาที: ส่งไปแล้ว 5t² รายการ ณ เวลา t ทั้งหมด 500 รายการ
+    const profile = rampProfile(0, 100, 10);
+
+    expect(scheduledOffset(profile, 0)).toBe(0);
+    expect(scheduledOffset(profile, 5)).toBeCloseTo(1000);
+    expect(scheduledOffset(profile, 125)).toBeCloseTo(5000);
+    expect(scheduledOffset(profile, 499)).toBeCloseTo(Math.sqrt(499 / 5) * 1000);
+    expect(scheduledOffset(profile, 500)).toBeNull();
+  });
+
+  it('follows the integrated rate of a ramp down', () => {
+    // 100 → 0 tx/s ใน 10 วินาที: ส่งไปแล้ว 100t - 5t² รายการ ณ เวลา t
+    const profile = rampProfile(100, 0, 10);
+
+    expect(scheduledOffset(profile, 95)).toBeCloseTo(1000);
+    expect(scheduledOffset(profile, 375)).toBeCloseTo(5000);
+    expect(scheduledOffset(profile, 500)).toBeNull();
+  });
+
+  it('continues across stage boundaries', () => {
+    const profile = parseStepsSpec('10:5,50:2');
+
+    expect(scheduledOffset(profile, 49)).toBeCloseTo(4900);
+    expect(scheduledOffset(profile, 50)).toBeCloseTo(5000);
+    expect(scheduledOffset(profile, 75)).toBeCloseTo(5500);
+    expect(scheduledOffset(profile, 150)).toBeNull();
+  });
+
+  it('is the inverse of expectedCount', () => {
+    const profile = spikeProfile(20, 200, 5, 3);
+    for (const index of [0, 1, 50, 99, 100, 350, 699, 700, 799]) {
+      const offset = scheduledOffset(profile, index);
+      expect(offset).not.toBeNull();
+      expect(expectedCount(profile, offset! / 1000)).toBeCloseTo(index);
+    }
+  });
+});
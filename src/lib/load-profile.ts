@@ -0,0 +1,198 @@
+import { LoadProfile, LoadStage } from '../types';
+
+/**
+ * Profile ที่ส่งด้วย rate คงที่ (ถ้าไม่ระบุ duration จะไม่มีวันจบเอง)
+ */
+export function constantProfile(rate: number, duration: number = Infinity): LoadProfile {
+  return { stages: [createStage('constant', duration, rate, rate)] };
+}
+
+/**
+ * Profile ที่เพิ่ม/ลด rate แบบ linear จาก from ไป to ภายใน duration วินาที
+ */
+export function rampProfile(from: number, to: number, duration: number): LoadProfile {
+  return { stages: [createStage('ramp', duration, from, to)] };
+}
+
+/**
+ * Profile แบบขั้นบันได แต่ละขั้นคง rate ไว้ตาม duration ที่กำหนด
+ */
+export function stepProfile(steps: { rate: number; duration: number }[]): LoadProfile {
+  if (steps.length === 0) {
+    throw new Error('Step profile requires at least one step');
+  }
+  return {
+    stages: steps.map((step, index) => createStage(`step-${index + 1}`, step.duration, step.rate, step.rate))
+  };
+}
+
+/**
+ * Profile แบบ spike: baseline → spike สั้นๆ → กลับมาที่ baseline
+ */
+export function spikeProfile(base: number, peak: number, baseDuration: number, spikeDuration: number): LoadProfile {
+  return {
+    stages: [
+      createStage('baseline', baseDuration, base, base),
+      createStage('spike', spikeDuration, peak, peak),
+      createStage('recovery', baseDuration, base, base)
+    ]
+  };
+}
+
+/**
+ * แปลงค่า --ramp ในรูปแบบ "from:to:seconds"
+ */
+export function parseRampSpec(spec: string): LoadProfile {
+  const [from, to, duration] = parseNumbers(spec, 3, '--ramp', 'from:to:seconds');
+  return rampProfile(from!, to!, duration!);
+}
+
+/**
+ * แปลงค่า --steps ในรูปแบบ "rate:seconds,rate:seconds,..."
+ */
+export function parseStepsSpec(spec: string): LoadProfile {
+  return stepProfile(spec.split(',').map(step => {
+    const [rate, duration] = parseNumbers(step, 2, '--steps', 'rate:seconds,...');
+    return { rate: rate!, duration: duration! };
+  }));
+}
+
+/**
+ * แปลงค่า --spike ในรูปแบบ "base:peak:baseSeconds:spikeSeconds"
+ */
+export function parseSpikeSpec(spec: string): LoadProfile {
+  const [base, peak, baseDuration, spikeDuration] = parseNumbers(spec, 4, '--spike', 'base:peak:baseSeconds:spikeSeconds');
+  return spikeProfile(base!, peak!, baseDuration!, spikeDuration!);
+}
+
+/**
+ * แปลง profile section จาก scenario file
+ *
+ * รองรับ `{ "type": "ramp" | "steps" | "spike", ... }` หรือ `{ "stages": [...] }`
+ */
+export function parseProfileDefinition(raw: any): LoadProfile {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Profile must be an object');
+  }
+
+  switch (raw.type) {
+    case 'constant':
+      return constantProfile(raw.rate, raw.duration);
+    case 'ramp':
+      return rampProfile(raw.from, raw.to, raw.duration);
+    case 'steps':
+      return stepProfile(raw.steps ?? []);
+    case 'spike':
+      return spikeProfile(raw.base, raw.peak, raw.baseDuration, raw.spikeDuration);
+    case undefined:
+      break;
+    default:
+      throw new Error(`Unknown profile type: ${raw.type}`);
+  }
+
+  if (!Array.isArray(raw.stages) || raw.stages.length === 0) {
+    throw new Error('Profile must define a type or a non-empty stages array');
+  }
+
+  return {
+    stages: raw.stages.map((stage: any, index: number) => createStage(
+      stage.name ?? `stage-${index + 1}`,
+      stage.duration,
+      stage.startRate ?? stage.rate,
+      stage.endRate ?? stage.rate
+    ))
+  };
+}
+
+/**
+ * ระยะเวลารวมของ profile (วินาที)
+ */
+export function profileDuration(profile: LoadProfile): number {
+  return profile.stages.reduce((sum, stage) => sum + stage.duration, 0);
+}
+
+/**
+ * หา stage ที่ active ณ เวลาที่ผ่านไป (วินาที)
+ */
+export function stageAt(profile: LoadProfile, elapsed: number): LoadStage | undefined {
+  let stageStart = 0;
+  for (const stage of profile.stages) {
+    if (elapsed < stageStart + stage.duration) {
+      return stage;
+    }
+    stageStart += stage.duration;
+  }
+  return undefined;
+}
+
+/**
+ * จำนวน transactions ที่ profile กำหนดให้ส่งภายในเวลาที่ผ่านไป (วินาที)
+ */
+export function expectedCount(profile: LoadProfile, elapsed: number): number {
+  let stageStart = 0;
+  let count = 0;
+
+  for (const stage of profile.stages) {
+    const t = Math.min(Math.max(elapsed - stageStart, 0), stage.duration);
+    if (t > 0) {
+      const slope = stage.duration === Infinity ? 0 : (stage.endRate - stage.startRate) / stage.duration;
+      count += stage.startRate * t + slope * t * t / 2;
+    }
+    stageStart += stage.duration;
+  }
+  return count;
+}
+
+/**
+ * คำนวณเวลาที่ต้องส่ง transaction ลำดับที่ index (ms นับจากเริ่ม profile)
+ *
+ * คืนค่า null ถ้า index เกินจำนวน transactions ทั้งหมดของ profile
+ */
+export function scheduledOffset(profile: LoadProfile, index: number): number | null {
+  let stageStart = 0;
+  let countBefore = 0;
+
+  for (const stage of profile.stages) {
+    const stageCount = (stage.startRate + stage.endRate) / 2 * stage.duration;
+
+    if (index < countBefore + stageCount) {
+      // แก้สมการ startRate * t + (slope / 2) * t^2 = จำนวนที่ต้องส่งภายใน stage
+      const count = index - countBefore;
+      const slope = (stage.endRate - stage.startRate) / stage.duration;
+      const t = slope === 0
+        ? count / stage.startRate
+        : (-stage.startRate + Math.sqrt(stage.startRate ** 2 + 2 * slope * count)) / slope;
+      return (stageStart + t) * 1000;
+    }
+
+    stageStart += stage.duration;
+    countBefore += stageCount;
+  }
+
+  return null;
+}
+
+/**
+ * สร้าง stage พร้อมตรวจสอบค่า
+ */
+function createStage(name: string, duration: number, startRate: number, endRate: number): LoadStage {
+  if (typeof duration !== 'number' || !(duration > 0)) {
+    throw new Error(`Invalid duration for stage "${name}": ${duration}`);
+  }
+  if (typeof startRate !== 'number' || typeof endRate !== 'number' ||
+      !Number.isFinite(startRate) || !Number.isFinite(endRate) || startRate < 0 || endRate < 0) {
+    throw new Error(`Invalid rate for stage "${name}": ${startRate} → ${endRate}`);
+  }
+  return { name, duration, startRate, endRate };
+}
+
+/**
+ * แยกตัวเลขจาก spec ที่คั่นด้วย ":"
+ */
+function parseNumbers(spec: string, expected: number, flag: string, format: string): number[] {
+  const values = spec.split(':').map(part => Number(part.trim()));
+  if (values.length !== expected || values.some(value => !Number.isFinite(value))) {
+    throw new Error(`Invalid ${flag} value "${spec}", expected ${format}`);
+  }
+  return values;
+}
@@ -1,18 +1,83 @@
-import { TransactionSender } from './transaction-sender';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import { WalletPool } from './wallet-pool';
+import { WorkloadMix } from './workloads';
+import { BlockScanner } from './block-scanner';
+import { summarizeLatencies } from './latency';
+import { ReceiptTracker } from './receipt-tracker';
+import { MempoolWatcher } from './mempool-watcher';
+import { TxPoolMonitor } from './txpool-monitor';
+import { TransactionJournal } from './transaction-journal';
+import { isWebSocketUrl } from './provider';
+import { Endpoint, EndpointPool } from './endpoint-pool';
+import { classifyError, describeError, isRetryable } from './errors';
+import { constantProfile, expectedCount, profileDuration, scheduledOffset, stageAt } from './load-profile';
 import { 
   LoadTestConfig, 
   LoadTestMetrics, 
   TransactionResult, 
   TPSSnapshot,
-  LoadTestOptions 
+  LoadTestOptions,
+  LoadProfile,
+  FeeSettings,
+  WalletStats,
+  StageStats,
+  WorkloadStats,
+  SignedTransaction,
+  ErrorCategory,
+  ErrorStats,
+  LiveStats,
+  NonceStats
 } from '../types';
 import { EventEmitter } from 'events';
 
+// ระยะเวลาระหว่างการตรวจ nonce gaps ของทุก wallet (ms)
+const NONCE_CHECK_INTERVAL = 5000;
+
+// ระยะเวลาระหว่างการตรวจหา transactions ที่ค้าง (ms)
+const REPLACEMENT_CHECK_INTERVAL = 1000;
+
+// ระยะเวลาสูงสุดที่ transaction รออยู่ในคิว JSON-RPC batch ที่ยังไม่ครบ --rpc-batch-size (ms)
+const BATCH_FLUSH_INTERVAL = 100;
+
+// ค่า default ของ replacement policy
+const DEFAULT_FEE_BUMP = 10;
+const DEFAULT_MAX_REPLACEMENTS = 3;
+
+// จำนวน TPS snapshots สูงสุดที่เก็บไว้สำหรับกราฟในรายงาน
+const MAX_TPS_SNAPSHOTS = 3600;
+
 /**
  * Class สำหรับจัดการ Load Testing และวัด TPS
  */
 export class LoadTester extends EventEmitter {
-  private transactionSender: TransactionSender;
+  private walletPool: WalletPool;
+  private walletStats: Map<string, WalletStats> = new Map();
+  private stageStats: Map<string, StageStats> = new Map();
+  private profile: LoadProfile | undefined;
+  private profileStartTime: number = 0;
+  private feeSettings: FeeSettings;
+  private workloads: WorkloadMix;
+  private workloadStats: Map<string, WorkloadStats> = new Map();
+  private workloadLatencyTotals: Map<string, number> = new Map();
+  private errorStats: Map<ErrorCategory, ErrorStats> = new Map();
+  private presigned: SignedTransaction[] | null = null;
+  private blockScanner: BlockScanner;
+  private receiptTracker: ReceiptTracker;
+  private mempoolWatcher: MempoolWatcher | null = null;
+  private txpoolMonitor: TxPoolMonitor | null = null;
+  private journal: TransactionJournal | null = null;
+  private confirmations: Promise<void>[] = [];
+  private submitLatencies: number[] = [];
+  private inclusionLatencies: number[] = [];
+  private nonceMonitor: NodeJS.Timeout | null = null;
+  private nonceCheck: Promise<void> | null = null;
+  private replacementMonitor: NodeJS.Timeout | null = null;
+  private replacementCheck: Promise<void> | null = null;
+  private endpoints: EndpointPool;
+  private batchQueues: Map<Endpoint, { signed: SignedTransaction; resolve: (result: TransactionResult) => void }[]> = new Map();
+  private batchTimers: Map<Endpoint, NodeJS.Timeout> = new Map();
+  private totalCostWei: bigint = 0n;
   private config: LoadTestConfig;
   private options: LoadTestOptions;
   private metrics: LoadTestMetrics;
@@ -20,6 +85,8 @@ export class LoadTester extends EventEmitter {
   private isRunning: boolean = false;
   private startTime: number = 0;
   private endTime: number = 0;
+  private sendEndTime: number = 0;
+  private sendDeadline: number = Infinity;
 
   constructor(config: LoadTestConfig, options: LoadTestOptions = {}) {
     super();
@@ -33,8 +100,103 @@ export class LoadTester extends EventEmitter {
       ...options
     };
     
-    this.transactionSender = new TransactionSender(config.rpcUrl, config.privateKey);
+    this.walletPool = this.createWalletPool();
+    this.endpoints = new EndpointPool(config.rpcEndpoints ?? [{ url: config.rpcUrl }], config.endpointStrategy);
+    this.blockScanner = new BlockScanner(config.rpcUrl);
+
+    // subscriptions ใช้ --ws ถ้ากำหนด ไม่เช่นนั้นใช้ RPC URL (ได้ newHeads เมื่อ RPC URL เป็น WebSocket)
+    if (config.wsUrl && !isWebSocketUrl(config.wsUrl)) {
+      throw new Error(`Invalid WebSocket URL: ${config.wsUrl}`);
+    }
+    const subscriptionUrl = config.wsUrl ?? config.rpcUrl;
+    this.receiptTracker = new ReceiptTracker(subscriptionUrl);
+    this.receiptTracker.on('block', block => this.emit('block', block));
+    if (config.trackPending) {
+      this.mempoolWatcher = new MempoolWatcher(subscriptionUrl);
+    }
+    if (config.txpoolInterval !== undefined) {
+      this.txpoolMonitor = new TxPoolMonitor(config.rpcUrl, config.txpoolInterval * 1000);
+      this.txpoolMonitor.on('sample', sample => this.emit('txpool', sample));
+    }
     this.metrics = this.createInitialMetrics();
+    this.profile = config.profile ?? (config.rate ? constantProfile(config.rate) : undefined);
+    this.feeSettings = this.createFeeSettings();
+    if (config.rpcBatchSize !== undefined) {
+      if (!Number.isInteger(config.rpcBatchSize) || config.rpcBatchSize < 1) {
+        throw new Error(`Invalid RPC batch size: ${config.rpcBatchSize}`);
+      }
+      if (!config.presign) {
+        throw new Error('JSON-RPC batch submission requires pre-signed mode');
+      }
+      if (this.endpoints.getEndpoints().some(endpoint => isWebSocketUrl(endpoint.url))) {
+        throw new Error('JSON-RPC batch submission requires an HTTP RPC URL (WebSocket providers do not support batches)');
+      }
+    }
+    if (config.replaceAfter !== undefined) {
+      if (!(config.replaceAfter > 0)) {
+        throw new Error(`Invalid replace-after threshold: ${config.replaceAfter}`);
+      }
+      if (config.feeBump !== undefined && !(config.feeBump > 0)) {
+        throw new Error(`Invalid fee bump: ${config.feeBump}`);
+      }
+      if (config.maxReplacements !== undefined && (!Number.isInteger(config.maxReplacements) || config.maxReplacements < 1)) {
+        throw new Error(`Invalid max replacements: ${config.maxReplacements}`);
+      }
+    }
+    this.workloads = new WorkloadMix(config.workloads, {
+      targetAddress: config.targetAddress,
+      value: config.value || '0',
+      ...(config.gasLimit !== undefined && { gasLimit: config.gasLimit })
+    });
+  }
+
+  /**
+   * สร้าง wallet pool จาก mnemonic, key file หรือ private key เดี่ยว
+   */
+  private createWalletPool(): WalletPool {
+    const { rpcUrl, mnemonic, keyFile, privateKey } = this.config;
+
+    if (mnemonic) {
+      return WalletPool.fromMnemonic(rpcUrl, mnemonic, this.config.walletCount ?? 1);
+    }
+    if (keyFile) {
+      return WalletPool.fromKeyFile(rpcUrl, keyFile);
+    }
+    if (privateKey) {
+      return new WalletPool(rpcUrl, [privateKey]);
+    }
+    throw new Error('No sender wallet configured: provide a private key, mnemonic or key file');
+  }
+
+  /**
+   * สร้าง fee settings จาก config (ถ้าระบุ max fee หรือ priority fee จะใช้ EIP-1559 โดยอัตโนมัติ)
+   */
+  private createFeeSettings(): FeeSettings {
+    const { txType, gasPrice, maxFeePerGas, maxPriorityFeePerGas, feeRefresh } = this.config;
+    const fees: FeeSettings = {
+      type: txType ?? (maxFeePerGas || maxPriorityFeePerGas ? 'eip1559' : 'legacy'),
+      refresh: feeRefresh ?? 'per-tx'
+    };
+
+    if (fees.type === 'eip1559') {
+      if (gasPrice) {
+        throw new Error('Gas price cannot be used with EIP-1559 transactions; use max fee and priority fee instead');
+      }
+      if (maxFeePerGas) {
+        fees.maxFeePerGas = maxFeePerGas;
+      }
+      if (maxPriorityFeePerGas) {
+        fees.maxPriorityFeePerGas = maxPriorityFeePerGas;
+      }
+    } else {
+      if (maxFeePerGas || maxPriorityFeePerGas) {
+        throw new Error(`Max fee and priority fee require EIP-1559 transactions (got ${fees.type})`);
+      }
+      if (gasPrice) {
+        fees.gasPrice = gasPrice;
+      }
+    }
+    return fees;
   }
 
   /**
@@ -55,7 +217,20 @@ export class LoadTester extends EventEmitter {
       gasUsedTotal: 0,
       totalCost: '0',
       blockNumbers: [],
-      uniqueBlocks: 0
+      uniqueBlocks: 0,
+      walletStats: [],
+      offeredTPS: 0,
+      averageScheduleLag: 0,
+      maxScheduleLag: 0,
+      stageStats: [],
+      workloadStats: [],
+      submitLatency: summarizeLatencies([]),
+      inclusionLatency: summarizeLatencies([]),
+      nonceStats: { reclaimed: 0, gapsDetected: 0, gapsRepaired: 0 },
+      retries: 0,
+      errorStats: [],
+      endpointStats: [],
+      tpsSnapshots: []
     };
   }
 
@@ -64,18 +239,60 @@ export class LoadTester extends EventEmitter {
    */
   async initialize(): Promise<void> {
     try {
-      await this.transactionSender.initialize();
+      await this.walletPool.initialize();
       this.log('info', 'Load tester initialized successfully');
       
       // แสดงข้อมูล wallet และ network
-      const walletInfo = await this.transactionSender.getWalletInfo();
-      const networkInfo = await this.transactionSender.getNetworkInfo();
+      const walletInfos = await Promise.all(
+        this.walletPool.getSenders().map(sender => sender.getWalletInfo())
+      );
+      const networkInfo = await this.walletPool.primary.getNetworkInfo();
       
-      this.log('info', `Wallet: ${walletInfo.address}`);
-      this.log('info', `Balance: ${walletInfo.balance} ETH`);
+      for (const walletInfo of walletInfos) {
+        this.walletStats.set(walletInfo.address, {
+          address: walletInfo.address,
+          sent: 0,
+          successful: 0,
+          failed: 0
+        });
+      }
+
+      if (walletInfos.length === 1) {
+        this.log('info', `Wallet: ${walletInfos[0]!.address}`);
+        this.log('info', `Balance: ${walletInfos[0]!.balance} ETH`);
+      } else {
+        const totalBalance = walletInfos.reduce((sum, info) => sum + parseFloat(info.balance), 0);
+        this.log('info', `Wallets: ${walletInfos.length}`);
+        this.log('info', `Total Balance: ${totalBalance.toFixed(6)} ETH`);
+        for (const walletInfo of walletInfos) {
+          this.log('debug', `  ${walletInfo.address}: ${walletInfo.balance} ETH (nonce ${walletInfo.nonce})`);
+        }
+      }
       this.log('info', `Network: ${networkInfo.networkName} (Chain ID: ${networkInfo.chainId})`);
       this.log('info', `Current Gas Price: ${networkInfo.gasPrice} Gwei`);
       
+      // เตรียม workloads (deploy contracts, ประมาณ gas)
+      await this.workloads.prepare(this.walletPool, this.feeSettings);
+      for (const { name, weight, workload } of this.workloads.getEntries()) {
+        this.log('info', `Workload: ${name} (${workload.type}, weight ${weight}, gas limit ${workload.gasLimit})`);
+        this.workloadStats.set(name, {
+          name,
+          type: workload.type,
+          weight,
+          sent: 0,
+          successful: 0,
+          failed: 0,
+          gasUsed: 0,
+          averageLatency: 0
+        });
+        this.workloadLatencyTotals.set(name, 0);
+      }
+      
+      // sign transactions ทั้งหมดล่วงหน้า เพื่อไม่ให้เวลา sign และ fee lookup ถูกนับรวมใน throughput
+      if (this.config.presign) {
+        await this.presignTransactions();
+      }
+      
     } catch (error) {
       throw new Error(`Failed to initialize load tester: ${error}`);
     }
@@ -89,39 +306,101 @@ export class LoadTester extends EventEmitter {
       throw new Error('Load test is already running');
     }
 
+    const profileIsBounded = this.profile !== undefined && Number.isFinite(profileDuration(this.profile));
+    if (this.config.transactionCount === undefined && !this.config.duration && !profileIsBounded) {
+      throw new Error('Either a transaction count, a test duration or a bounded load profile is required');
+    }
+
+    // block แรกที่อาจมี transactions ของการทดสอบ (ใช้เป็นจุดเริ่มของ block scan)
+    const startBlock = await this.blockScanner.getBlockNumber() + 1;
+    this.receiptTracker.start(startBlock);
+    if (this.options.journalFile) {
+      this.journal = new TransactionJournal(this.options.journalFile);
+    }
+    await this.mempoolWatcher?.start();
+    this.txpoolMonitor?.start();
+
     this.isRunning = true;
     this.startTime = Date.now();
     this.metrics.startTime = this.startTime;
+    this.sendDeadline = this.config.duration ? this.startTime + this.config.duration * 1000 : Infinity;
     
-    this.log('info', `Starting load test with ${this.config.transactionCount} transactions`);
-    this.log('info', `Concurrency: ${this.config.concurrency}`);
+    if (this.config.transactionCount !== undefined) {
+      this.log('info', `Starting load test with ${this.config.transactionCount} transactions`);
+    } else {
+      this.log('info', `Starting load test for ${this.config.duration ?? profileDuration(this.profile!)} seconds`);
+    }
+    if (this.config.profile) {
+      for (const stage of this.config.profile.stages) {
+        this.log('info', `Stage ${stage.name}: ${stage.startRate} → ${stage.endRate} tx/s for ${stage.duration}s`);
+        this.stageStats.set(stage.name, {
+          name: stage.name,
+          startRate: stage.startRate,
+          endRate: stage.endRate,
+          duration: stage.duration,
+          sent: 0,
+          successful: 0,
+          failed: 0,
+          offeredTPS: 0,
+          achievedTPS: 0
+        });
+      }
+    } else if (this.config.rate) {
+      this.log('info', `Target rate: ${this.config.rate} tx/s (open-loop)`);
+    } else {
+      this.log('info', `Concurrency: ${this.config.concurrency}`);
+    }
+    this.log('info', `Sender wallets: ${this.walletPool.size}`);
     this.log('info', `Target address: ${this.config.targetAddress}`);
 
+    // เก็บ TPS snapshots ทุกวินาทีจนรอ confirmations เสร็จ (ส่ง real-time stats เฉพาะช่วงส่ง transactions)
+    const monitoringInterval = setInterval(() => {
+      this.updateTpsSnapshot();
+      if (this.options.realTimeStats && this.sendEndTime === 0) {
+        this.emit('stats', this.getCurrentStats());
+      }
+    }, 1000);
+
     try {
-      // เริ่ม real-time monitoring ถ้าเปิดใช้งาน
-      let monitoringInterval: NodeJS.Timeout | null = null;
-      if (this.options.realTimeStats) {
-        monitoringInterval = setInterval(() => {
-          this.updateTpsSnapshot();
-          this.emit('stats', this.getCurrentStats());
-        }, 1000);
+
+      // transactions ที่ sign ล่วงหน้ามี nonce ครบทุกตัวตั้งแต่ก่อนส่ง จึงตรวจ gaps หลังส่งครบแล้วเท่านั้น
+      if (!this.presigned) {
+        this.startNonceMonitor();
       }
+      this.startReplacementMonitor();
 
-      // ส่ง transactions ตาม concurrency ที่กำหนด
-      const results = await this.executeConcurrentTransactions();
+      // ส่ง transactions ตาม load profile (open-loop) หรือตาม concurrency ที่กำหนด
+      const results = this.profile
+        ? await this.executeScheduledTransactions(this.profile)
+        : await this.executeConcurrentTransactions();
+      this.sendEndTime = Date.now();
+      this.releaseUnsentPresigned();
+
+      // รอการ confirm ของ transactions ทั้งหมด (ตรวจ nonce gaps ต่อระหว่างรอ)
+      this.startNonceMonitor();
+      await this.waitForAllConfirmations();
       
       // หยุด monitoring
-      if (monitoringInterval) {
-        clearInterval(monitoringInterval);
+      clearInterval(monitoringInterval);
+      this.updateTpsSnapshot();
+      await this.stopNonceMonitor();
+      await this.stopReplacementMonitor();
+      await this.txpoolMonitor?.stop();
+      if (this.journal) {
+        await this.journal.close();
+        this.log('info', `Transaction journal (${this.journal.entries} entries) saved to ${this.options.journalFile}`);
+        if (this.journal.dropped > 0) {
+          this.log('warn', `Transaction journal dropped ${this.journal.dropped} entries because the file could not be written fast enough`);
+        }
       }
 
-      // รอการ confirm ของ transactions ทั้งหมด
-      await this.waitForAllConfirmations(results);
-
       this.endTime = Date.now();
       this.metrics.endTime = this.endTime;
       this.isRunning = false;
 
+      // วัด throughput จากฝั่ง chain
+      await this.scanBlocks(startBlock, results);
+
       // คำนวณ metrics สุดท้าย
       this.calculateFinalMetrics();
       
@@ -131,6 +410,7 @@ export class LoadTester extends EventEmitter {
       return this.metrics;
 
     } catch (error) {
+      clearInterval(monitoringInterval);
       this.isRunning = false;
       this.log('error', `Load test failed: ${error}`);
       throw error;
@@ -143,30 +423,22 @@ export class LoadTester extends EventEmitter {
   private async executeConcurrentTransactions(): Promise<TransactionResult[]> {
     const results: TransactionResult[] = [];
     const batchSize = this.config.concurrency;
-    const totalTransactions = this.config.transactionCount;
+    const totalTransactions = this.config.transactionCount ?? Infinity;
     
-    for (let i = 0; i < totalTransactions; i += batchSize) {
+    for (let i = 0; this.shouldContinueSending(i); i += batchSize) {
       const currentBatchSize = Math.min(batchSize, totalTransactions - i);
       
       this.log('debug', `Sending batch ${Math.floor(i / batchSize) + 1}, transactions: ${currentBatchSize}`);
       
-      const batchResults = await this.transactionSender.sendBatchTransactions(
-        this.config.targetAddress,
-        currentBatchSize,
-        this.config.value || '0',
-        this.config.gasLimit || 21000,
-        this.config.gasPrice
-      );
-      
-      results.push(...batchResults);
-      this.metrics.totalTransactions += currentBatchSize;
-      
-      // อัพเดท pending transactions
-      this.metrics.pendingTransactions += batchResults.filter(r => r.status === 'pending').length;
-      this.metrics.failedTransactions += batchResults.filter(r => r.status === 'failed').length;
+      const batchPromises: Promise<TransactionResult>[] = [];
+      for (let j = 0; j < currentBatchSize; j++) {
+        batchPromises.push(this.submitTransaction());
+      }
+      this.flushBroadcastQueue();
+      results.push(...await Promise.all(batchPromises));
       
       // หน่วงเวลาเล็กน้อยระหว่าง batch เพื่อไม่ให้ overwhelm network
-      if (i + batchSize < totalTransactions) {
+      if (this.shouldContinueSending(i + batchSize)) {
         await this.sleep(100);
       }
     }
@@ -175,40 +447,525 @@ export class LoadTester extends EventEmitter {
   }
 
   /**
-   * รอการ confirm ของ transactions ทั้งหมด
+   * ส่ง transactions แบบ open-loop ตาม load profile โดยไม่รอผลของ transaction ก่อนหน้า
    */
-  private async waitForAllConfirmations(results: TransactionResult[]): Promise<void> {
-    const pendingTxs = results.filter(r => r.status === 'pending');
+  private async executeScheduledTransactions(profile: LoadProfile): Promise<TransactionResult[]> {
+    const promises: Promise<TransactionResult>[] = [];
+    let totalLag = 0;
+    let profileFinished = false;
+    this.profileStartTime = Date.now();
     
-    if (pendingTxs.length === 0) {
-      return;
+    while (!profileFinished && this.shouldContinueSending(promises.length)) {
+      const now = Date.now();
+      
+      // ส่งทุก transaction ที่ถึงเวลาแล้ว (timer ของ Node ละเอียดไม่พอสำหรับ rate สูง)
+      while (this.shouldContinueSending(promises.length)) {
+        const offset = scheduledOffset(profile, promises.length);
+        if (offset === null) {
+          profileFinished = true;
+          break;
+        }
+        
+        const scheduledAt = this.profileStartTime + offset;
+        if (scheduledAt > now) {
+          break;
+        }
+        
+        // บันทึกว่า generator ช้ากว่ากำหนดเท่าไร
+        const lag = now - scheduledAt;
+        totalLag += lag;
+        this.metrics.maxScheduleLag = Math.max(this.metrics.maxScheduleLag, lag);
+        promises.push(this.submitTransaction(stageAt(profile, offset / 1000)?.name));
+      }
+      
+      const nextOffset = scheduledOffset(profile, promises.length);
+      if (nextOffset !== null && this.shouldContinueSending(promises.length)) {
+        const nextAt = Math.min(this.profileStartTime + nextOffset, this.sendDeadline);
+        await this.sleep(Math.max(0, nextAt - Date.now()));
+      }
+    }
+    
+    this.metrics.averageScheduleLag = promises.length > 0 ? totalLag / promises.length : 0;
+    this.flushBroadcastQueue();
+    return Promise.all(promises);
+  }
+
+  /**
+   * คืน nonces ของ transactions ที่ sign ล่วงหน้าแต่ไม่ได้ส่ง (การทดสอบจบก่อนเพราะ duration หรือ stop)
+   *
+   * transactions ที่ไม่ได้ส่งเป็นลำดับท้ายของแต่ละ wallet จึงคืนให้ตัวนับทั้งหมด การตรวจ nonce gaps
+   * ช่วง drain จึงไม่นับเป็น gaps และไม่ส่ง transactions เติมหลังหยุดส่ง
+   */
+  private releaseUnsentPresigned(): void {
+    const unsent = this.presigned?.slice(this.metrics.totalTransactions) ?? [];
+    for (const signed of unsent) {
+      this.walletPool.getSender(signed.from)?.releaseNonce(signed.nonce);
+    }
+    if (unsent.length > 0) {
+      this.log('info', `${unsent.length} pre-signed transactions were not sent`);
+    }
+  }
+
+  /**
+   * Sign transactions ทั้งหมดของการทดสอบล่วงหน้า (และบันทึกลงไฟล์ถ้ากำหนด)
+   */
+  private async presignTransactions(): Promise<void> {
+    const count = this.plannedTransactionCount();
+    const signingStart = Date.now();
+    const presigned: SignedTransaction[] = [];
+    
+    this.log('info', `Pre-signing ${count} transactions...`);
+    for (let i = 0; i < count; i++) {
+      const sender = this.walletPool.next();
+      const { name, workload } = this.workloads.next();
+      const signed = await sender.signCall(workload.nextCall(sender.address, i), workload.gasLimit, this.feeSettings);
+      signed.workload = name;
+      presigned.push(signed);
+    }
+    
+    this.presigned = presigned;
+    this.metrics.signingDuration = Date.now() - signingStart;
+    this.log('info', `Pre-signed ${count} transactions in ${(this.metrics.signingDuration / 1000).toFixed(2)}s`);
+    
+    if (this.options.presignFile) {
+      await fs.promises.writeFile(
+        this.options.presignFile,
+        presigned.map(tx => JSON.stringify(tx)).join('\n') + '\n'
+      );
+      this.log('info', `Pre-signed transactions saved to ${this.options.presignFile}`);
+    }
+  }
+
+  /**
+   * จำนวน transactions ทั้งหมดที่จะส่ง (ใช้ตอน sign ล่วงหน้า)
+   */
+  private plannedTransactionCount(): number {
+    if (this.config.transactionCount !== undefined) {
+      return this.config.transactionCount;
+    }
+    if (this.profile) {
+      const duration = Math.min(this.config.duration ?? Infinity, profileDuration(this.profile));
+      if (Number.isFinite(duration)) {
+        return Math.ceil(expectedCount(this.profile, duration));
+      }
+    }
+    throw new Error('Pre-signed mode requires a transaction count or a bounded rate/profile');
+  }
+
+  /**
+   * ตรวจสอบว่ายังต้องส่ง transactions ต่อหรือไม่ (ครบจำนวน, หมดเวลา หรือถูกหยุด)
+   */
+  private shouldContinueSending(sent: number): boolean {
+    if (!this.isRunning) {
+      return false;
+    }
+    if (this.config.transactionCount !== undefined && sent >= this.config.transactionCount) {
+      return false;
+    }
+    if (this.presigned && sent >= this.presigned.length) {
+      return false;
+    }
+    return Date.now() < this.sendDeadline;
+  }
+
+  /**
+   * ส่ง transaction หนึ่งรายการผ่าน wallet ถัดไปใน pool (round-robin) และอัพเดท metrics
+   */
+  private async submitTransaction(stage?: string): Promise<TransactionResult> {
+    const index = this.metrics.totalTransactions++;
+    let name: string;
+    let result: TransactionResult;
+    
+    if (this.presigned) {
+      // ส่ง raw transaction ที่ sign ไว้แล้ว (provider ใช้ร่วมกันทุก wallet)
+      const signed = this.presigned[index]!;
+      name = signed.workload!;
+      // การส่งซ้ำส่งทีละรายการ ไม่รอ JSON-RPC batch ถัดไป
+      const broadcast = () => this.sendVia(signed.from, via => this.walletPool.primary.broadcast(signed, via));
+      result = await this.withRetry(this.config.rpcBatchSize ? this.enqueueBroadcast(signed) : broadcast(), broadcast);
+    } else {
+      const sender = this.walletPool.next();
+      const entry = this.workloads.next();
+      const call = entry.workload.nextCall(sender.address, index);
+      const send = () => this.sendVia(sender.address, via => sender.sendCall(call, entry.workload.gasLimit, this.feeSettings, via));
+      name = entry.name;
+      result = await this.withRetry(send(), send);
+    }
+    result.workload = name;
+    if (stage) {
+      result.stage = stage;
+    }
+    
+    const stats = this.getWalletStats(result.from);
+    const stageStats = this.getStageStats(stage);
+    const workloadStats = this.workloadStats.get(name);
+    if (stats) {
+      stats.sent++;
+    }
+    if (stageStats) {
+      stageStats.sent++;
+    }
+    if (workloadStats) {
+      workloadStats.sent++;
+    }
+    
+    if (result.submitLatency !== undefined) {
+      this.submitLatencies.push(result.submitLatency);
+      this.emit('latency', 'submit', result.submitLatency);
+    }
+    
+    if (result.status === 'failed') {
+      this.metrics.failedTransactions++;
+      this.recordError(result, 'send');
+      this.journal?.record(result);
+      // raw transaction ส่งผ่าน primary sender จึงต้องคืน nonce ให้ wallet ที่ sign เอง
+      if (this.presigned && result.from && result.nonce !== undefined) {
+        this.walletPool.getSender(result.from)?.releaseNonce(result.nonce, result.errorCategory);
+      }
+      if (stats) {
+        stats.failed++;
+      }
+      if (stageStats) {
+        stageStats.failed++;
+      }
+      if (workloadStats) {
+        workloadStats.failed++;
+      }
+    } else {
+      this.metrics.pendingTransactions++;
+      this.mempoolWatcher?.observe(result.hash, result.submittedAt ?? result.timestamp);
+      // บันทึกผลทันทีที่ได้ receipt ระหว่างที่ยังส่ง transactions อื่นอยู่
+      this.confirmations.push(
+        this.receiptTracker.track(result).then(confirmation => this.recordConfirmation(result, confirmation))
+      );
+    }
+    
+    return result;
+  }
+
+  /**
+   * ส่งซ้ำเมื่อ error อยู่ในประเภทที่ retry ได้ (rate limit, timeout) สูงสุด maxRetries ครั้ง
+   * โดยรอ retryDelay และเพิ่มเป็นสองเท่าทุกครั้ง (exponential backoff)
+   */
+  private async withRetry(
+    first: Promise<TransactionResult>,
+    retry: () => Promise<TransactionResult>
+  ): Promise<TransactionResult> {
+    const maxRetries = this.options.maxRetries ?? 0;
+    const retryDelay = this.options.retryDelay ?? 0;
+    let result = await first;
+    
+    for (let attempt = 0; attempt < maxRetries && result.status === 'failed' && isRetryable(result.errorCategory); attempt++) {
+      const delay = retryDelay * 2 ** attempt;
+      this.log('debug', `Retrying ${result.errorCategory} error in ${delay} ms (attempt ${attempt + 1}/${maxRetries}): ${result.error}`);
+      await this.sleep(delay);
+      this.metrics.retries++;
+      result = await retry();
+    }
+    return result;
+  }
+
+  /**
+   * ส่งผ่าน endpoint ที่เลือกสำหรับ wallet นี้ และบันทึกผลลงในสถิติของ endpoint
+   */
+  private async sendVia(
+    wallet: string,
+    send: (via: ethers.JsonRpcApiProvider) => Promise<TransactionResult>
+  ): Promise<TransactionResult> {
+    const endpoint = this.endpoints.select(wallet);
+    const result = await send(endpoint.provider);
+    this.recordEndpoint(endpoint, result);
+    return result;
+  }
+
+  /**
+   * ระบุ endpoint ในผลลัพธ์และบันทึกสถิติของ endpoint
+   */
+  private recordEndpoint(endpoint: Endpoint, result: TransactionResult): void {
+    result.endpoint = endpoint.url;
+    this.endpoints.record(endpoint, result);
+  }
+
+  /**
+   * นับ error ตามประเภท แยกระหว่างตอนส่งและตอนรอ receipt
+   */
+  private recordError(result: TransactionResult, phase: 'send' | 'receipt'): void {
+    const category = result.errorCategory ?? classifyError(result.error);
+    let stats = this.errorStats.get(category);
+    if (!stats) {
+      stats = { category, retryable: isRetryable(category), send: 0, receipt: 0, example: result.error ?? '' };
+      this.errorStats.set(category, stats);
+    }
+    stats[phase]++;
+  }
+
+  /**
+   * เก็บ raw transaction ไว้ในคิวของ endpoint ที่เลือก เพื่อส่งใน JSON-RPC batch ถัดไป
+   * (ส่งทันทีเมื่อคิวของ endpoint นั้นครบ --rpc-batch-size หรือเมื่อรอครบ BATCH_FLUSH_INTERVAL)
+   */
+  private enqueueBroadcast(signed: SignedTransaction): Promise<TransactionResult> {
+    const endpoint = this.endpoints.select(signed.from);
+    return new Promise(resolve => {
+      const queue = this.batchQueues.get(endpoint) ?? [];
+      queue.push({ signed, resolve });
+      this.batchQueues.set(endpoint, queue);
+      if (queue.length >= this.config.rpcBatchSize!) {
+        this.flushEndpointQueue(endpoint);
+      } else if (!this.batchTimers.has(endpoint)) {
+        // ที่ rate ต่ำ คิวอาจไม่ครบ batch นาน จึงส่งเท่าที่มีเมื่อรอครบกำหนด
+        this.batchTimers.set(endpoint, setTimeout(() => this.flushEndpointQueue(endpoint), BATCH_FLUSH_INTERVAL));
+      }
+    });
+  }
+
+  /**
+   * ส่ง raw transactions ที่ค้างอยู่ในคิวของทุก endpoint
+   */
+  private flushBroadcastQueue(): void {
+    for (const endpoint of this.batchQueues.keys()) {
+      this.flushEndpointQueue(endpoint);
     }
+  }
 
-    this.log('info', `Waiting for ${pendingTxs.length} transactions to be confirmed...`);
+  /**
+   * ส่ง raw transactions ที่ค้างอยู่ในคิวของ endpoint เป็น JSON-RPC batch request เดียว
+   */
+  private flushEndpointQueue(endpoint: Endpoint): void {
+    clearTimeout(this.batchTimers.get(endpoint));
+    this.batchTimers.delete(endpoint);
+    const queued = this.batchQueues.get(endpoint);
+    if (!queued || queued.length === 0) {
+      return;
+    }
+    
+    this.batchQueues.set(endpoint, []);
+    this.metrics.rpcBatches = (this.metrics.rpcBatches ?? 0) + 1;
+    this.log('debug', `Sending JSON-RPC batch with ${queued.length} transactions to ${endpoint.url}`);
     
-    const confirmationResults = await this.transactionSender.waitForBatchConfirmations(
-      pendingTxs.map(tx => tx.hash),
-      1,
-      this.config.duration ? this.config.duration * 1000 : 300000
+    const batch = queued.map(entry => entry.signed);
+    void this.walletPool.primary.broadcastBatch(batch, endpoint.provider)
+      .catch((error): TransactionResult[] => {
+        // ไม่ให้ transactions ในคิวค้างตลอดไปถ้าการส่งหรือการ map ผลลัพธ์ผิดพลาด
+        const failure = describeError(error);
+        return batch.map(({ raw, ...details }) => ({ ...details, status: 'failed', timestamp: Date.now(), ...failure }));
+      })
+      .then(results => {
+        results.forEach((result, i) => {
+          this.recordEndpoint(endpoint, result);
+          queued[i]!.resolve(result);
+        });
+      });
+  }
+
+  /**
+   * เริ่มตรวจ nonce gaps ของทุก wallet เป็นระยะ
+   */
+  private startNonceMonitor(): void {
+    if (this.nonceMonitor) {
+      return;
+    }
+    this.nonceMonitor = setInterval(() => {
+      if (!this.nonceCheck) {
+        this.nonceCheck = this.repairNonceGaps().finally(() => {
+          this.nonceCheck = null;
+        });
+      }
+    }, NONCE_CHECK_INTERVAL);
+  }
+
+  /**
+   * หยุดตรวจ nonce gaps (รอรอบที่กำลังทำงานอยู่ให้เสร็จ)
+   */
+  private async stopNonceMonitor(): Promise<void> {
+    if (this.nonceMonitor) {
+      clearInterval(this.nonceMonitor);
+      this.nonceMonitor = null;
+    }
+    await this.nonceCheck;
+  }
+
+  /**
+   * ตรวจหาและเติม nonce gaps ของทุก wallet
+   */
+  private async repairNonceGaps(): Promise<void> {
+    for (const sender of this.walletPool.getSenders()) {
+      try {
+        const fills = await sender.repairNonceGaps(this.feeSettings);
+        for (const fill of fills) {
+          if (fill.status === 'failed') {
+            this.log('warn', `Failed to fill nonce gap ${fill.nonce} of ${sender.address}: ${fill.error}`);
+          } else {
+            this.log('info', `Filled nonce gap ${fill.nonce} of ${sender.address} (${fill.hash})`);
+          }
+        }
+      } catch (error) {
+        this.log('debug', `Nonce gap check failed for ${sender.address}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  /**
+   * เริ่มตรวจหา transactions ที่ค้างนานกว่า replaceAfter เป็นระยะ (เฉพาะเมื่อกำหนด replaceAfter)
+   */
+  private startReplacementMonitor(): void {
+    if (this.config.replaceAfter === undefined || this.replacementMonitor) {
+      return;
+    }
+    this.metrics.replacementsSent = 0;
+    this.metrics.replacedTransactions = 0;
+    this.replacementMonitor = setInterval(() => {
+      if (!this.replacementCheck) {
+        this.replacementCheck = this.replaceStuckTransactions().finally(() => {
+          this.replacementCheck = null;
+        });
+      }
+    }, REPLACEMENT_CHECK_INTERVAL);
+  }
+
+  /**
+   * หยุดตรวจหา transactions ที่ค้าง (รอรอบที่กำลังทำงานอยู่ให้เสร็จ)
+   */
+  private async stopReplacementMonitor(): Promise<void> {
+    if (this.replacementMonitor) {
+      clearInterval(this.replacementMonitor);
+      this.replacementMonitor = null;
+    }
+    await this.replacementCheck;
+  }
+
+  /**
+   * ส่ง transactions ที่ค้างใหม่ด้วย nonce เดิมและ fee ที่สูงขึ้น จนกว่าจะครบ maxReplacements
+   */
+  private async replaceStuckTransactions(): Promise<void> {
+    const feeBump = this.config.feeBump ?? DEFAULT_FEE_BUMP;
+    const maxReplacements = this.config.maxReplacements ?? DEFAULT_MAX_REPLACEMENTS;
+    const stuck = this.receiptTracker.stuck(this.config.replaceAfter! * 1000).filter(sent =>
+      (sent.replacementChain?.length ?? 1) - 1 < maxReplacements
     );
 
-    // อัพเดท metrics
-    for (const result of confirmationResults) {
-      if (result.status === 'success') {
-        this.metrics.successfulTransactions++;
-        this.metrics.pendingTransactions--;
-        if (result.gasUsed) {
-          this.metrics.gasUsedTotal += result.gasUsed;
+    await Promise.all(stuck.map(async sent => {
+      const sender = sent.from ? this.walletPool.getSender(sent.from) : undefined;
+      if (!sender) {
+        return;
+      }
+      const latest = sent.replacementChain?.[sent.replacementChain.length - 1] ?? sent.hash;
+      try {
+        const replacement = await sender.replaceTransaction(latest, feeBump);
+        if (replacement?.status === 'pending') {
+          this.receiptTracker.replace(sent, replacement);
+          this.metrics.replacementsSent!++;
+          this.log('debug', `Replaced ${latest} with ${replacement.hash} (nonce ${replacement.nonce}, +${feeBump}% fee)`);
+          return;
         }
-        // เก็บข้อมูล block number
-        if (result.blockNumber) {
-          this.metrics.blockNumbers.push(result.blockNumber);
+        if (replacement) {
+          this.log('debug', `Failed to replace ${latest}: ${replacement.error}`);
+        }
+      } catch (error) {
+        this.log('debug', `Failed to replace ${latest}: ${error instanceof Error ? error.message : error}`);
+      }
+      this.receiptTracker.postpone(sent);
+    }));
+  }
+
+  /**
+   * Scan blocks ตั้งแต่เริ่มการทดสอบจนถึง block สุดท้ายที่มี transaction ของการทดสอบ
+   * (ถ้า scan ไม่สำเร็จจะไม่ทำให้การทดสอบล้มเหลว)
+   */
+  private async scanBlocks(startBlock: number, results: TransactionResult[]): Promise<void> {
+    try {
+      // ไม่นับ blocks ว่างระหว่างรอ drain timeout เพื่อไม่ให้ chain TPS ต่ำกว่าความจริง
+      const endBlock = this.metrics.blockNumbers.length > 0
+        ? this.metrics.blockNumbers.reduce((max, n) => Math.max(max, n), 0)
+        : await this.blockScanner.getBlockNumber();
+      if (endBlock < startBlock) {
+        return;
+      }
+      
+      this.log('info', `Scanning blocks ${startBlock} - ${endBlock}...`);
+      const ownHashes = new Set(
+        results.flatMap(r => r.replacementChain ?? [r.hash]).filter(hash => hash).map(hash => hash.toLowerCase())
+      );
+      this.metrics.chainStats = await this.blockScanner.scan(startBlock, endBlock, ownHashes);
+    } catch (error) {
+      this.log('warn', `Block scan failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * รอจนทุก transaction ที่ส่งได้ receipt (สูงสุด drain timeout)
+   */
+  private async waitForAllConfirmations(): Promise<void> {
+    if (this.receiptTracker.pending > 0) {
+      this.log('info', `Waiting for ${this.receiptTracker.pending} transactions to be confirmed...`);
+    }
+    
+    await this.receiptTracker.drain((this.config.drainTimeout ?? 300) * 1000);
+    await Promise.all(this.confirmations);
+    await this.receiptTracker.stop();
+    
+    if (this.mempoolWatcher) {
+      this.metrics.mempoolLatency = summarizeLatencies(this.mempoolWatcher.getLatencies());
+      this.metrics.mempoolUnseen = this.mempoolWatcher.unseen;
+      this.mempoolWatcher.stop();
+    }
+  }
+
+  /**
+   * อัพเดท metrics เมื่อ transaction ที่ส่งได้ receipt (หรือหมดเวลารอ)
+   */
+  private recordConfirmation(sent: TransactionResult, result: TransactionResult): void {
+    if (result.status === 'success') {
+      // latency นับจากตอนส่ง raw transaction ให้ node จนได้ receipt (ไม่รวมเวลาดึง fee, sign และ retries)
+      result.inclusionLatency = result.timestamp + (result.confirmationTime ?? 0) - (sent.submittedAt ?? sent.timestamp);
+      this.inclusionLatencies.push(result.inclusionLatency);
+      this.emit('latency', 'inclusion', result.inclusionLatency);
+    }
+    if (result.status !== 'pending') {
+      this.journal?.record(sent, result);
+      const outcome = result.status === 'success' ? 'successful' : 'failed';
+      const stats = this.getWalletStats(sent.from);
+      const stageStats = this.getStageStats(sent.stage);
+      const workloadStats = sent.workload ? this.workloadStats.get(sent.workload) : undefined;
+      if (stats) {
+        stats[outcome]++;
+      }
+      if (stageStats) {
+        stageStats[outcome]++;
+      }
+      if (workloadStats) {
+        workloadStats[outcome]++;
+        workloadStats.gasUsed += result.gasUsed ?? 0;
+        if (result.inclusionLatency !== undefined) {
+          this.workloadLatencyTotals.set(
+            workloadStats.name,
+            (this.workloadLatencyTotals.get(workloadStats.name) ?? 0) + result.inclusionLatency
+          );
         }
-      } else if (result.status === 'failed') {
-        this.metrics.failedTransactions++;
-        this.metrics.pendingTransactions--;
       }
     }
+
+    if (result.status === 'success') {
+      this.metrics.successfulTransactions++;
+      this.metrics.pendingTransactions--;
+      if (result.hash !== sent.hash) {
+        this.metrics.replacedTransactions = (this.metrics.replacedTransactions ?? 0) + 1;
+      }
+      if (result.gasUsed) {
+        this.metrics.gasUsedTotal += result.gasUsed;
+        // ใช้ effective gas price จาก receipt (รองรับทั้ง legacy และ EIP-1559)
+        if (result.gasPrice) {
+          this.totalCostWei += BigInt(result.gasUsed) * ethers.parseUnits(result.gasPrice, 'gwei');
+        }
+      }
+      // เก็บข้อมูล block number
+      if (result.blockNumber) {
+        this.metrics.blockNumbers.push(result.blockNumber);
+      }
+    } else if (result.status === 'failed') {
+      this.metrics.failedTransactions++;
+      this.metrics.pendingTransactions--;
+      this.recordError(result, 'receipt');
+    }
   }
 
   /**
@@ -226,11 +983,26 @@ export class LoadTester extends EventEmitter {
       failureCount: this.metrics.failedTransactions
     };
     
+    // จำนวน transactions ใน txpool ของ node จาก sample ล่าสุด
+    const txpool = this.txpoolMonitor?.latest;
+    if (txpool) {
+      snapshot.txpoolPending = txpool.pending;
+      snapshot.txpoolQueued = txpool.queued;
+    }
+    
+    // ระบุ stage ของ load profile ที่ snapshot นี้อยู่
+    const stage = this.config.profile && this.profileStartTime > 0
+      ? stageAt(this.config.profile, (now - this.profileStartTime) / 1000)
+      : undefined;
+    if (stage) {
+      snapshot.stage = stage.name;
+    }
+    
     this.tpsSnapshots.push(snapshot);
     
-    // เก็บเฉพาะ snapshot ล่าสุด 100 รายการ
-    if (this.tpsSnapshots.length > 100) {
-      this.tpsSnapshots.shift();
+    // ถ้าเกินจำนวนสูงสุด ลดความละเอียดลงครึ่งหนึ่งเพื่อให้ยังครอบคลุมตลอดการทดสอบ
+    if (this.tpsSnapshots.length > MAX_TPS_SNAPSHOTS) {
+      this.tpsSnapshots = this.tpsSnapshots.filter((_, i, all) => (all.length - 1 - i) % 2 === 0);
     }
   }
 
@@ -245,29 +1017,94 @@ export class LoadTester extends EventEmitter {
       this.metrics.averageTPS = (this.metrics.successfulTransactions * 1000) / this.metrics.totalDuration;
     }
     
+    // คำนวณ offered TPS (อัตราที่ generator ส่งได้จริงในช่วงส่ง)
+    const sendDuration = this.sendEndTime - this.startTime;
+    if (sendDuration > 0) {
+      this.metrics.offeredTPS = (this.metrics.totalTransactions * 1000) / sendDuration;
+    }
+    if (this.config.rate && !this.config.profile) {
+      this.metrics.targetTPS = this.config.rate;
+    }
+    
     // หา peak TPS
     this.metrics.peakTPS = Math.max(...this.tpsSnapshots.map(s => s.tps), 0);
+    this.metrics.tpsSnapshots = [...this.tpsSnapshots];
     
-    // คำนวณ average confirmation time (ถ้ามีข้อมูล)
-    const confirmationTimes = this.tpsSnapshots
-      .map(s => s.timestamp - this.startTime)
-      .filter(time => time > 0);
-    
-    if (confirmationTimes.length > 0) {
-      this.metrics.averageConfirmationTime = 
-        confirmationTimes.reduce((sum, time) => sum + time, 0) / confirmationTimes.length;
-    }
+    // สรุป latency ของการส่งและการได้ receipt ของแต่ละ transaction
+    this.metrics.submitLatency = summarizeLatencies(this.submitLatencies);
+    this.metrics.inclusionLatency = summarizeLatencies(this.inclusionLatencies);
+    this.metrics.averageConfirmationTime = this.metrics.inclusionLatency.average;
     
-    // คำนวณ total cost (ประมาณการ)
-    if (this.metrics.gasUsedTotal > 0 && this.config.gasPrice) {
-      const gasPriceWei = parseFloat(this.config.gasPrice) * 1e9; // Convert Gwei to Wei
-      const totalCostWei = this.metrics.gasUsedTotal * gasPriceWei;
-      this.metrics.totalCost = (totalCostWei / 1e18).toFixed(6); // Convert to ETH
+    // คำนวณ total cost จาก gas used และ effective gas price ของแต่ละ receipt
+    if (this.totalCostWei > 0n) {
+      this.metrics.totalCost = parseFloat(ethers.formatEther(this.totalCostWei)).toFixed(6);
     }
     
     // คำนวณ unique blocks
     const uniqueBlockNumbers = [...new Set(this.metrics.blockNumbers)];
     this.metrics.uniqueBlocks = uniqueBlockNumbers.length;
+    
+    // สรุป errors แยกตามประเภท (มากไปน้อย)
+    this.metrics.errorStats = [...this.errorStats.values()]
+      .map(stats => ({ ...stats }))
+      .sort((a, b) => (b.send + b.receipt) - (a.send + a.receipt));
+    
+    // สรุปสถิติแยกตาม RPC endpoint
+    this.metrics.endpointStats = this.endpoints.getStats();
+    
+    // time series ของ txpool ของ node
+    if (this.txpoolMonitor) {
+      this.metrics.txpoolStats = this.txpoolMonitor.getStats();
+    }
+    
+    // สรุปสถิติแยกตาม wallet
+    this.metrics.walletStats = [...this.walletStats.values()].map(stats => ({ ...stats }));
+    
+    // รวมสถิติ nonce ของทุก wallet
+    this.metrics.nonceStats = this.totalNonceStats();
+    
+    // สรุปสถิติแยกตาม stage ของ load profile
+    this.metrics.stageStats = [...this.stageStats.values()].map(stats => ({
+      ...stats,
+      offeredTPS: stats.sent / stats.duration,
+      achievedTPS: stats.successful / stats.duration
+    }));
+    
+    // สรุปสถิติแยกตามประเภท transaction
+    this.metrics.workloadStats = [...this.workloadStats.values()].map(stats => ({
+      ...stats,
+      averageLatency: stats.successful > 0
+        ? (this.workloadLatencyTotals.get(stats.name) ?? 0) / stats.successful
+        : 0
+    }));
+  }
+
+  /**
+   * ดึงสถิติของ wallet ตาม address
+   */
+  private getWalletStats(address: string | undefined): WalletStats | undefined {
+    return address ? this.walletStats.get(address) : undefined;
+  }
+
+  /**
+   * รวมสถิติ nonce ของทุก wallet
+   */
+  private totalNonceStats(): NonceStats {
+    return this.walletPool.getSenders().reduce((total, sender) => {
+      const stats = sender.nonceStats;
+      return {
+        reclaimed: total.reclaimed + stats.reclaimed,
+        gapsDetected: total.gapsDetected + stats.gapsDetected,
+        gapsRepaired: total.gapsRepaired + stats.gapsRepaired
+      };
+    }, { reclaimed: 0, gapsDetected: 0, gapsRepaired: 0 });
+  }
+
+  /**
+   * ดึงสถิติของ stage ตามชื่อ
+   */
+  private getStageStats(stage: string | undefined): StageStats | undefined {
+    return stage ? this.stageStats.get(stage) : undefined;
   }
 
   /**
@@ -288,6 +1125,31 @@ export class LoadTester extends EventEmitter {
     };
   }
 
+  /**
+   * สถิติระหว่างการทดสอบสำหรับ metrics endpoint (ไม่คำนวณ percentiles จึงเรียกได้บ่อย)
+   */
+  getLiveStats(): LiveStats {
+    const latest = this.tpsSnapshots[this.tpsSnapshots.length - 1];
+    const previous = this.tpsSnapshots[this.tpsSnapshots.length - 2];
+    const interval = latest && previous ? (latest.timestamp - previous.timestamp) / 1000 : 0;
+    const txpool = this.txpoolMonitor?.latest;
+
+    return {
+      running: this.isRunning,
+      totalTransactions: this.metrics.totalTransactions,
+      successfulTransactions: this.metrics.successfulTransactions,
+      failedTransactions: this.metrics.failedTransactions,
+      pendingTransactions: this.metrics.pendingTransactions,
+      currentTPS: interval > 0 ? (latest!.successCount - previous!.successCount) / interval : 0,
+      averageTPS: this.getCurrentStats().averageTPS ?? 0,
+      retries: this.metrics.retries,
+      nonceStats: this.totalNonceStats(),
+      errorStats: [...this.errorStats.values()].map(stats => ({ ...stats })),
+      endpoints: this.endpoints.getCounts(),
+      ...(txpool && { txpool })
+    };
+  }
+
   /**
    * หยุดการทดสอบ
    */
@@ -322,7 +1184,19 @@ export class LoadTester extends EventEmitter {
    * ปิดการเชื่อมต่อ
    */
   disconnect(): void {
-    this.transactionSender.disconnect();
+    if (this.nonceMonitor) {
+      clearInterval(this.nonceMonitor);
+    }
+    if (this.replacementMonitor) {
+      clearInterval(this.replacementMonitor);
+    }
+    this.walletPool.disconnect();
+    this.endpoints.disconnect();
+    this.txpoolMonitor?.disconnect();
+    void this.journal?.close().catch(() => undefined);
+    this.blockScanner.disconnect();
+    void this.receiptTracker.stop();
+    this.mempoolWatcher?.stop();
   }
 
   /**
@@ -0,0 +1,81 @@
+import { ethers } from 'ethers';
+import { isWebSocketUrl } from './provider';
+
+// จำนวน pending hashes ที่ยังไม่ได้จับคู่สูงสุดที่เก็บไว้ (mempool ของ network จริงมี transactions อื่นจำนวนมาก)
+const MAX_UNMATCHED = 50000;
+
+/**
+ * Class สำหรับวัดเวลาที่ transactions ของการทดสอบปรากฏใน mempool ของ node ผ่าน newPendingTransactions
+ */
+export class MempoolWatcher {
+  private provider: ethers.WebSocketProvider;
+  private seen: Map<string, number> = new Map(); // hash → เวลาที่เห็นใน mempool (ยังไม่ได้จับคู่)
+  private waiting: Map<string, number> = new Map(); // hash → เวลาที่ส่ง (ยังไม่เห็นใน mempool)
+  private latencies: number[] = [];
+  private onPending = (hash: string): void => {
+    const key = hash.toLowerCase();
+    const submittedAt = this.waiting.get(key);
+    if (submittedAt !== undefined) {
+      this.waiting.delete(key);
+      this.latencies.push(Date.now() - submittedAt);
+      return;
+    }
+
+    // notification อาจมาถึงก่อนที่การส่งจะ return
+    this.seen.set(key, Date.now());
+    if (this.seen.size > MAX_UNMATCHED) {
+      this.seen.delete(this.seen.keys().next().value!);
+    }
+  };
+
+  constructor(wsUrl: string) {
+    if (!isWebSocketUrl(wsUrl)) {
+      throw new Error(`Pending transaction tracking requires a WebSocket URL (got ${wsUrl})`);
+    }
+    this.provider = new ethers.WebSocketProvider(wsUrl);
+  }
+
+  /**
+   * Subscribe newPendingTransactions (รอจน subscription พร้อมก่อนเริ่มส่ง)
+   */
+  async start(): Promise<void> {
+    await this.provider.on('pending', this.onPending);
+  }
+
+  /**
+   * บันทึก transaction ที่ส่งแล้วเพื่อจับคู่กับ pending notification
+   */
+  observe(hash: string, submittedAt: number): void {
+    const key = hash.toLowerCase();
+    const seenAt = this.seen.get(key);
+    if (seenAt !== undefined) {
+      this.seen.delete(key);
+      this.latencies.push(Math.max(seenAt - submittedAt, 0));
+    } else {
+      this.waiting.set(key, submittedAt);
+    }
+  }
+
+  /**
+   * Latency (ms) ตั้งแต่ส่งจนเห็นใน mempool ของ transactions ที่จับคู่ได้
+   */
+  getLatencies(): number[] {
+    return [...this.latencies];
+  }
+
+  /**
+   * จำนวน transactions ที่ส่งแล้วแต่ไม่เคยเห็นใน mempool
+   */
+  get unseen(): number {
+    return this.waiting.size;
+  }
+
+  /**
+   * ยกเลิก subscription และปิดการเชื่อมต่อ
+   */
+  stop(): void {
+    if (!this.provider.destroyed) {
+      this.provider.destroy();
+    }
+  }
+}
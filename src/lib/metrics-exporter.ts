@@ -0,0 +1,181 @@
+import * as http from 'http';
+import { LoadTester } from './load-tester';
+import { LATENCY_BUCKETS } from './latency';
+import { LatencyKind, LiveStats } from '../types';
+
+// prefix ของชื่อ metrics ทั้งหมด
+const PREFIX = 'loadtest';
+
+interface Histogram {
+  buckets: number[]; // จำนวน samples ในแต่ละ bucket (ไม่สะสม) ช่องสุดท้ายคือ +Inf
+  sum: number; // วินาที
+  count: number;
+}
+
+/**
+ * Class สำหรับเปิด HTTP endpoint /metrics ในรูปแบบ Prometheus text format ระหว่างการทดสอบ
+ *
+ * counters และ gauges อ่านจาก LoadTester.getLiveStats() ทุกครั้งที่ถูก scrape
+ * ส่วน latency histograms สะสมจาก 'latency' events ทีละ sample จึงไม่ต้องเรียง samples ทั้งหมด
+ */
+export class MetricsExporter {
+  private loadTester: LoadTester;
+  private port: number;
+  private host: string;
+  private server: http.Server;
+  private histograms: Record<LatencyKind, Histogram> = {
+    submit: createHistogram(),
+    inclusion: createHistogram()
+  };
+  private onLatency = (kind: LatencyKind, ms: number): void => this.observe(kind, ms);
+
+  constructor(loadTester: LoadTester, port: number, host: string = '127.0.0.1') {
+    this.loadTester = loadTester;
+    this.port = port;
+    this.host = host;
+    this.server = http.createServer((request, response) => {
+      if (request.method !== 'GET' || request.url?.split('?')[0] !== '/metrics') {
+        response.writeHead(404, { 'Content-Type': 'text/plain' });
+        response.end('Not found. Metrics are served at /metrics\n');
+        return;
+      }
+      response.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      response.end(this.render());
+    });
+    this.loadTester.on('latency', this.onLatency);
+  }
+
+  /**
+   * URL ของ metrics endpoint
+   */
+  get url(): string {
+    return `http://${this.host === '0.0.0.0' ? 'localhost' : this.host}:${this.port}/metrics`;
+  }
+
+  /**
+   * เริ่มรับ requests (error เมื่อ port ถูกใช้อยู่)
+   */
+  async start(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const onError = (error: Error): void => reject(new Error(`Failed to start metrics endpoint on port ${this.port}: ${error.message}`));
+      this.server.once('error', onError);
+      this.server.listen(this.port, this.host, () => {
+        this.server.off('error', onError);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * ปิด HTTP server
+   */
+  async stop(): Promise<void> {
+    this.loadTester.off('latency', this.onLatency);
+    if (!this.server.listening) {
+      return;
+    }
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  /**
+   * metrics ทั้งหมดในรูปแบบ Prometheus text exposition format
+   */
+  render(): string {
+    const stats = this.loadTester.getLiveStats();
+    const lines: string[] = [];
+
+    metric(lines, 'running', 'gauge', 'Whether the load test is sending or draining (1) or finished (0)', [[{}, stats.running ? 1 : 0]]);
+    metric(lines, 'transactions_sent_total', 'counter', 'Transactions submitted', [[{}, stats.totalTransactions]]);
+    metric(lines, 'transactions_successful_total', 'counter', 'Transactions confirmed successfully', [[{}, stats.successfulTransactions]]);
+    metric(lines, 'transactions_failed_total', 'counter', 'Transactions that failed to send or reverted', [[{}, stats.failedTransactions]]);
+    metric(lines, 'transactions_pending', 'gauge', 'Transactions sent and still waiting for a receipt', [[{}, stats.pendingTransactions]]);
+    metric(lines, 'tps', 'gauge', 'Confirmed transactions per second over the last snapshot interval', [[{}, stats.currentTPS]]);
+    metric(lines, 'average_tps', 'gauge', 'Confirmed transactions per second since the start of the test', [[{}, stats.averageTPS]]);
+    metric(lines, 'retries_total', 'counter', 'Re-sends after retryable errors', [[{}, stats.retries]]);
+    metric(lines, 'nonce_gaps_detected_total', 'counter', 'Nonce gaps detected', [[{}, stats.nonceStats.gapsDetected]]);
+    metric(lines, 'nonce_gaps_repaired_total', 'counter', 'Nonce gaps filled by a repair transaction', [[{}, stats.nonceStats.gapsRepaired]]);
+    metric(lines, 'nonces_reclaimed_total', 'counter', 'Nonces of failed sends reused', [[{}, stats.nonceStats.reclaimed]]);
+    metric(lines, 'errors_total', 'counter', 'Errors by category and phase (send or receipt)', stats.errorStats.flatMap(error => [
+      [{ category: error.category, phase: 'send' }, error.send] as Sample,
+      [{ category: error.category, phase: 'receipt' }, error.receipt] as Sample
+    ]));
+    endpointMetrics(lines, stats);
+    if (stats.txpool) {
+      metric(lines, 'txpool_pending', 'gauge', 'Pending transactions in the node txpool (latest sample)', [[{}, stats.txpool.pending]]);
+      metric(lines, 'txpool_queued', 'gauge', 'Queued transactions in the node txpool (latest sample)', [[{}, stats.txpool.queued]]);
+    }
+    histogram(lines, 'submit_latency_seconds', 'Time from send to RPC acknowledgement', this.histograms.submit);
+    histogram(lines, 'inclusion_latency_seconds', 'Time from send to receipt', this.histograms.inclusion);
+
+    return lines.join('\n') + '\n';
+  }
+
+  private observe(kind: LatencyKind, ms: number): void {
+    const histogram = this.histograms[kind];
+    const index = LATENCY_BUCKETS.findIndex(upperBound => ms <= upperBound);
+    histogram.buckets[index === -1 ? LATENCY_BUCKETS.length : index]!++;
+    histogram.sum += ms / 1000;
+    histogram.count++;
+  }
+}
+
+type Labels = Record<string, string>;
+type Sample = [Labels, number];
+
+function createHistogram(): Histogram {
+  return { buckets: new Array(LATENCY_BUCKETS.length + 1).fill(0), sum: 0, count: 0 };
+}
+
+/**
+ * metrics แยกตาม RPC endpoint (label เป็น origin และลำดับ เพราะ path ของ URL มักมี API key)
+ */
+function endpointMetrics(lines: string[], stats: LiveStats): void {
+  const byEndpoint = (value: (endpoint: LiveStats['endpoints'][number]) => number): Sample[] =>
+    stats.endpoints.map((endpoint, index) => [{ endpoint: origin(endpoint.url), index: String(index) }, value(endpoint)]);
+  metric(lines, 'endpoint_requests_total', 'counter', 'Submissions per RPC endpoint (including retries)', byEndpoint(endpoint => endpoint.sent));
+  metric(lines, 'endpoint_accepted_total', 'counter', 'Submissions accepted per RPC endpoint', byEndpoint(endpoint => endpoint.accepted));
+  metric(lines, 'endpoint_errors_total', 'counter', 'Failed submissions per RPC endpoint', byEndpoint(endpoint => endpoint.failed));
+}
+
+/**
+ * เขียน metric หนึ่งตัว (HELP, TYPE และ samples)
+ */
+function metric(lines: string[], name: string, type: 'counter' | 'gauge', help: string, samples: Sample[]): void {
+  lines.push(`# HELP ${PREFIX}_${name} ${help}`, `# TYPE ${PREFIX}_${name} ${type}`);
+  for (const [labels, value] of samples) {
+    lines.push(`${PREFIX}_${name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+/**
+ * เขียน histogram (buckets สะสมตามรูปแบบของ Prometheus หน่วยเป็นวินาที)
+ */
+function histogram(lines: string[], name: string, help: string, data: Histogram): void {
+  lines.push(`# HELP ${PREFIX}_${name} ${help}`, `# TYPE ${PREFIX}_${name} histogram`);
+  let cumulative = 0;
+  LATENCY_BUCKETS.forEach((upperBound, i) => {
+    cumulative += data.buckets[i]!;
+    lines.push(`${PREFIX}_${name}_bucket{le="${upperBound / 1000}"} ${cumulative}`);
+  });
+  lines.push(`${PREFIX}_${name}_bucket{le="+Inf"} ${data.count}`);
+  lines.push(`${PREFIX}_${name}_sum ${data.sum}`);
+  lines.push(`${PREFIX}_${name}_count ${data.count}`);
+}
+
+function origin(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return 'unknown';
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const escape = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(',')}}`;
+}
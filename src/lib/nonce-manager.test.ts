@@ -0,0 +1,160 @@
+import { ethers } from 'ethers';
+import { NonceManager } from './nonce-manager';
+
+const ADDRESS = '0x742d35Cc6634C0532925A3B8D4C9dB96C4B4d8B6';
+
+/**
+ * provider จำลองที่คืน transaction count ตาม block tag ที่กำหนดไว้
+ */
+function mockProvider(counts: { latest: number; pending: number }): ethers.JsonRpcApiProvider {
+  return {
+    getTransactionCount: jest.fn(async (_address: string, blockTag: 'latest' | 'pending') => counts[blockTag])
+  } as unknown as ethers.JsonRpcApiProvider;
+}
+
+// counts ถูกอ่านทุกครั้งที่เรียก provider จึงแก้ค่าระหว่าง test เพื่อจำลอง node ได้
+async function createManager(counts: { latest: number; pending: number }): Promise<NonceManager> {
+  const manager = new NonceManager(mockProvider(counts), ADDRESS);
+  await manager.initialize();
+  return manager;
+}
+
+describe('NonceManager', () => {
+  describe('acquire and release', () => {
+    it('starts from the pending transaction count', async () => {
+      const manager = await createManager({ latest: 3, pending: 5 });
+
+      expect([manager.acquire(), manager.acquire()]).toEqual([5, 6]);
+      expect(manager.next).toBe(7);
+    });
+
+    it('reuses released nonces lowest first before issuing new ones', async () => {
+      const manager = await createManager({ latest: 0, pending: 0 });
+      [0, 1, 2, 3].forEach(() => manager.acquire());
+
+      manager.release(2);
+      manager.release(0);
+
+      expect(manager.acquire()).toBe(0);
+      expect(manager.acquire()).toBe(2);
+      expect(manager.acquire()).toBe(4);
+      expect(manager.stats.reclaimed).toBe(2);
+    });
+
+    it('pops trailing released nonces back to the counter instead of leaving them as gaps', async () => {
+      const manager = await createManager({ latest: 0, pending: 0 });
+      [0, 1, 2, 3].forEach(() => manager.acquire());
+
+      manager.release(2);
+      expect(manager.next).toBe(4);
+
+      // 3 เป็น nonce สุดท้าย จึงคืนทั้ง 3 และ 2 ที่ต่อกันอยู่ให้ตัวนับ
+      manager.release(3);
+      expect(manager.next).toBe(2);
+      expect(manager.acquire()).toBe(2);
+      expect(manager.stats.reclaimed).toBe(0);
+    });
+
+    it('does not reuse nonces that the node reports as already used', async () => {
+      const manager = await createManager({ latest: 0, pending: 0 });
+      [0, 1, 2].forEach(() => manager.acquire());
+
+      manager.release(0, 'nonce-too-low');
+      manager.release(1, 'replacement-underpriced');
+
+      expect(manager.acquire()).toBe(3);
+    });
+
+    it('reuses the nonce of a send rejected for a fee below the pool minimum', async () => {
+      const manager = await createManager({ latest: 0, pending: 0 });
+      [0, 1].forEach(() => manager.acquire());
+
+      manager.release(0, 'underpriced');
+
+      expect(manager.acquire()).toBe(0);
+    });
+
+    it('ignores a nonce released twice', async () => {
+      const manager = await createManager({ latest: 0, pending: 0 });
+      [0, 1, 2].forEach(() => manager.acquire());
+
+      manager.release(0);
+      manager.release(0);
+
+      expect(manager.acquire()).toBe(0);
+      expect(manager.acquire()).toBe(3);
+    });
+  });
+
+  describe('claimGaps', () => {
+    it('reports a nonce the node has not seen only after two consecutive checks', async () => {
+      const counts = { latest: 0, pending: 0 };
+      const manager = await createManager(counts);
+      [0, 1, 2].forEach(() => manager.commit(manager.acquire()));
+
+      // node เห็นแค่ nonce 0 (pending = 1) จึงสงสัย nonce 1 แต่ยังไม่นับเป็น gap
+      counts.pending = 1;
+      expect(await manager.claimGaps()).toEqual([]);
+      expect(manager.stats.gapsDetected).toBe(0);
+
+      expect(await manager.claimGaps()).toEqual([1]);
+      expect(manager.stats.gapsDetected).toBe(1);
+
+      manager.markRepaired(1);
+      expect(manager.stats.gapsRepaired).toBe(1);
+    });
+
+    it('does not report a gap when the node catches up between checks', async () => {
+      const counts = { latest: 0, pending: 0 };
+      const manager = await createManager(counts);
+      [0, 1, 2].forEach(() => manager.commit(manager.acquire()));
+
+      counts.pending = 1;
+      expect(await manager.claimGaps()).toEqual([]);
+      counts.pending = 3;
+      expect(await manager.claimGaps()).toEqual([]);
+      counts.pending = 1;
+      expect(await manager.claimGaps()).toEqual([]);
+      expect(manager.stats.gapsDetected).toBe(0);
+    });
+
+    it('does not report a nonce that is still being sent', async () => {
+      const counts = { latest: 0, pending: 0 };
+      const manager = await createManager(counts);
+      manager.acquire();
+      manager.commit(manager.acquire());
+
+      expect(await manager.claimGaps()).toEqual([]);
+      expect(await manager.claimGaps()).toEqual([]);
+    });
+
+    it('does not report nonces signed in advance but released unsent', async () => {
+      const counts = { latest: 0, pending: 0 };
+      const manager = await createManager(counts);
+      [0, 1, 2, 3, 4].forEach(() => manager.commit(manager.acquire()));
+
+      // ส่งแค่ 0 และ 1 ก่อนการทดสอบจบ
+      [2, 3, 4].forEach(nonce => manager.release(nonce));
+      counts.pending = 2;
+
+      expect(await manager.claimGaps()).toEqual([]);
+      expect(await manager.claimGaps()).toEqual([]);
+      expect(manager.next).toBe(2);
+    });
+
+    it('claims released nonces immediately and drops those already mined', async () => {
+      const counts = { latest: 0, pending: 0 };
+      const manager = await createManager(counts);
+      [0, 1, 2, 3].forEach(() => manager.acquire());
+      manager.release(0);
+      manager.release(2);
+      [1, 3].forEach(nonce => manager.commit(nonce));
+
+      // nonce 0 ถูก mine จากที่อื่นแล้ว (latest = 1)
+      counts.latest = 1;
+      counts.pending = 2;
+      expect(await manager.claimGaps()).toEqual([2]);
+      expect(manager.acquire()).toBe(4);
+    });
+  });
+});
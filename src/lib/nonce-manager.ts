@@ -0,0 +1,139 @@
+import { ethers } from 'ethers';
+import { ErrorCategory, NonceStats } from '../types';
+
+// ประเภท error ที่แสดงว่า nonce ถูกใช้ไปแล้ว (mine แล้วหรือมี transaction อื่นอยู่ใน mempool) จึงคืนมาใช้ซ้ำไม่ได้
+const NONCE_CONSUMED_CATEGORIES: ReadonlySet<ErrorCategory> = new Set(['nonce-too-low', 'replacement-underpriced']);
+
+/**
+ * Class สำหรับจัดสรร nonce ของ wallet เดียว
+ *
+ * nonce ของการส่งที่ล้มเหลวจะถูกคืนมาใช้ซ้ำกับ transaction ถัดไป และตรวจหา nonce gaps
+ * โดยเทียบ nonces ที่ส่งไปแล้วกับ transaction count ('latest' และ 'pending') ของ node
+ */
+export class NonceManager {
+  private provider: ethers.JsonRpcApiProvider;
+  private address: string;
+  private nextNonce: number = 0;
+  private released: number[] = []; // nonces ที่คืนมาและยังไม่ได้ใช้ซ้ำ (เรียงจากน้อยไปมาก)
+  private inFlight: Set<number> = new Set();
+  private suspected: number | null = null;
+  private detected: Set<number> = new Set();
+  private reclaimed: number = 0;
+  private repaired: Set<number> = new Set();
+
+  constructor(provider: ethers.JsonRpcApiProvider, address: string) {
+    this.provider = provider;
+    this.address = address;
+  }
+
+  /**
+   * ดึง nonce ถัดไปจาก pending transaction count ของ node (ล้าง nonces ที่คืนมาทั้งหมด)
+   */
+  async initialize(): Promise<void> {
+    this.nextNonce = await this.provider.getTransactionCount(this.address, 'pending');
+    this.released = [];
+    this.inFlight.clear();
+    this.suspected = null;
+  }
+
+  /**
+   * Nonce ถัดไปที่ยังไม่เคยใช้
+   */
+  get next(): number {
+    return this.nextNonce;
+  }
+
+  /**
+   * จอง nonce สำหรับ transaction ใหม่ (ใช้ nonce ที่คืนมาก่อนเพื่อปิด gap)
+   */
+  acquire(): number {
+    const reused = this.released.shift();
+    if (reused !== undefined) {
+      this.reclaimed++;
+    }
+    const nonce = reused ?? this.nextNonce++;
+    this.inFlight.add(nonce);
+    return nonce;
+  }
+
+  /**
+   * บันทึกว่า nonce ถูกใช้แล้ว (node รับ transaction หรือ sign ไว้ล่วงหน้าแล้ว)
+   */
+  commit(nonce: number): void {
+    this.inFlight.delete(nonce);
+  }
+
+  /**
+   * คืน nonce ของการส่งที่ล้มเหลว ยกเว้น error แสดงว่า nonce ถูกใช้ไปแล้ว
+   */
+  release(nonce: number, category?: ErrorCategory): void {
+    this.inFlight.delete(nonce);
+    if ((category && NONCE_CONSUMED_CATEGORIES.has(category)) || this.released.includes(nonce)) {
+      return;
+    }
+
+    const index = this.released.findIndex(released => released > nonce);
+    this.released.splice(index === -1 ? this.released.length : index, 0, nonce);
+
+    // nonces ที่คืนมาต่อท้ายสุดไม่มี transaction ค้างอยู่ข้างหลัง จึงคืนให้ตัวนับแทน
+    while (this.released.length > 0 && this.released[this.released.length - 1] === this.nextNonce - 1) {
+      this.released.pop();
+      this.nextNonce--;
+    }
+  }
+
+  /**
+   * ตรวจหา nonce gaps และจองไว้ให้ผู้เรียกส่ง transaction มาเติม (แล้วเรียก markRepaired() หรือ commit())
+   *
+   * gap คือ nonce ที่คืนมาแต่ยังไม่ได้ใช้ซ้ำ หรือ nonce แรกที่ node ยังไม่เห็นทั้งที่ส่งไปแล้ว
+   * (pending count น้อยกว่า nonces ที่ส่งแล้ว) กรณีหลังต้องเห็นซ้ำสองรอบติดกัน
+   * เพื่อไม่นับ transaction ที่ node ยังเพิ่มเข้า pool ไม่เสร็จ
+   */
+  async claimGaps(): Promise<number[]> {
+    const issued = this.nextNonce;
+    const inFlight = new Set(this.inFlight);
+    const [latest, pending] = await Promise.all([
+      this.provider.getTransactionCount(this.address, 'latest'),
+      this.provider.getTransactionCount(this.address, 'pending')
+    ]);
+
+    // nonces ที่ต่ำกว่า latest ถูก mine ไปแล้ว (เช่น wallet ถูกใช้จากที่อื่นระหว่างทดสอบ)
+    this.released = this.released.filter(nonce => nonce >= latest);
+    this.nextNonce = Math.max(this.nextNonce, latest);
+
+    const missing = pending < issued && !inFlight.has(pending) && !this.inFlight.has(pending) ? pending : null;
+    const gaps = new Set(this.released);
+    if (missing !== null && missing === this.suspected) {
+      gaps.add(missing);
+      this.suspected = null;
+    } else {
+      this.suspected = missing;
+    }
+
+    this.released = [];
+    for (const nonce of gaps) {
+      this.detected.add(nonce);
+      this.inFlight.add(nonce);
+    }
+    return [...gaps].sort((a, b) => a - b);
+  }
+
+  /**
+   * บันทึกว่าเติม gap ที่ nonce นี้สำเร็จ
+   */
+  markRepaired(nonce: number): void {
+    this.commit(nonce);
+    this.repaired.add(nonce);
+  }
+
+  /**
+   * สถิติการคืน nonce และ nonce gaps
+   */
+  get stats(): NonceStats {
+    return {
+      reclaimed: this.reclaimed,
+      gapsDetected: this.detected.size,
+      gapsRepaired: this.repaired.size
+    };
+  }
+}
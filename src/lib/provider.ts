@@ -0,0 +1,35 @@
+import { ethers } from 'ethers';
+
+// ข้อความ error ของ node ที่ไม่มี RPC method นั้น (geth, erigon, nethermind, ganache, RPC providers)
+const UNSUPPORTED_METHOD_PATTERN = /method not found|does not exist|not available|not supported|unsupported|unknown method|-32601/i;
+
+/**
+ * ตรวจว่า URL เป็น WebSocket endpoint หรือไม่
+ */
+export function isWebSocketUrl(url: string): boolean {
+  return /^wss?:\/\//i.test(url);
+}
+
+/**
+ * ตรวจว่า error เกิดจาก node ไม่รองรับ RPC method (ไม่ใช่ error ชั่วคราวเช่น timeout หรือ rate limit)
+ */
+export function isUnsupportedMethod(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return UNSUPPORTED_METHOD_PATTERN.test(message);
+}
+
+/**
+ * สร้าง provider ตามประเภทของ URL (ws:// หรือ wss:// ใช้ WebSocketProvider นอกนั้นใช้ JsonRpcProvider)
+ */
+export function createProvider(url: string): ethers.JsonRpcApiProvider {
+  return isWebSocketUrl(url) ? new ethers.WebSocketProvider(url) : new ethers.JsonRpcProvider(url);
+}
+
+/**
+ * สร้าง provider สำหรับส่ง transactions โดยปิดการรวม requests เป็น batch อัตโนมัติของ ethers
+ * (ค่าเริ่มต้นรวม requests ที่เกิดใน 10ms เดียวกัน ทำให้การส่งแบบไม่ใช้ --rpc-batch-size ไม่ได้ส่งทีละ request จริง)
+ */
+export function createSendProvider(url: string): ethers.JsonRpcApiProvider {
+  const options: ethers.JsonRpcApiProviderOptions = { batchMaxCount: 1 };
+  return isWebSocketUrl(url) ? new ethers.WebSocketProvider(url, undefined, options) : new ethers.JsonRpcProvider(url, undefined, options);
+}
@@ -0,0 +1,413 @@
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import { createProvider, isUnsupportedMethod, isWebSocketUrl } from './provider';
+import { BlockUpdate, TransactionResult } from '../types';
+
+// ระยะเวลาระหว่างการตรวจ block ใหม่ (ms)
+const POLL_INTERVAL = 500;
+
+// เมื่อใช้ newHeads subscription จะตรวจเองเป็นระยะเผื่อ notification หาย (ms)
+const SUBSCRIPTION_FALLBACK_INTERVAL = 5000;
+
+// จำนวน blocks ล่าสุดที่จำ transaction hashes ไว้ สำหรับ transaction ที่ถูก mine ก่อนจะเริ่มติดตาม
+const RECENT_BLOCKS = 16;
+
+// จำนวน receipts ที่ดึงพร้อมกันในรอบสุดท้ายหลัง drain timeout (ethers รวมเป็น JSON-RPC batch request เดียว)
+const DRAIN_RECEIPT_BATCH = 100;
+
+interface TrackedTransaction {
+  sent: TransactionResult;
+  resolve: (result: TransactionResult) => void;
+  chain: string[]; // hashes ทั้งหมดของ nonce นี้ (transaction แรกและ replacements ตามลำดับ)
+  lastSubmitted: number; // เวลาที่ส่ง transaction ล่าสุดของ chain
+}
+
+// receipt จาก eth_getBlockReceipts ตามรูปแบบ JSON-RPC (ตัวเลขเป็น hex quantity)
+interface RawReceipt {
+  transactionHash: string;
+  status?: string | null;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  gasPrice?: string;
+  blockNumber: string;
+  blockHash: string;
+  contractAddress?: string | null;
+}
+
+interface ReceiptInfo {
+  hash: string;
+  status: number | null;
+  gasUsed: bigint;
+  gasPrice: bigint;
+  blockNumber: number;
+  blockHash: string;
+  contractAddress: string | null;
+}
+
+/**
+ * Class สำหรับติดตาม receipts โดยไล่อ่าน block ใหม่ทีละ block แทนการ poll ทีละ transaction
+ *
+ * แต่ละ block ดึง receipts ครั้งเดียวด้วย eth_getBlockReceipts (ถ้า node ไม่รองรับจะดึง transaction hashes
+ * ของ block แล้วดึง receipt เฉพาะ transactions ที่ติดตามอยู่) ถ้าใช้ WebSocket URL จะตรวจ block ใหม่ตาม
+ * newHeads subscription แทนการ poll
+ *
+ * transaction ที่ถูกส่งแทนด้วย replacement (nonce เดิม) ติดตามทุก hash ใน chain พร้อมกัน
+ * และ resolve ด้วย hash ที่ถูก mine จริง
+ *
+ * Events: 'block' (BlockUpdate) ทุกครั้งที่ประมวลผล block เสร็จ
+ */
+export class ReceiptTracker extends EventEmitter {
+  private provider: ethers.JsonRpcApiProvider;
+  private subscribed: boolean;
+  private outstanding: Map<string, TrackedTransaction> = new Map(); // key คือทุก hash ใน chain
+  private trackedCount: number = 0;
+  private recentHashes: Map<string, number> = new Map();
+  private lastProcessedBlock: number = -1;
+  private blockReceiptsSupported: boolean = true;
+  private running: boolean = false;
+  private loop: Promise<void> | null = null;
+  private wakeUp: (() => void) | null = null;
+  private onNewHead = (): void => {
+    this.wakeUp?.();
+  };
+
+  constructor(rpcUrl: string) {
+    super();
+    this.provider = createProvider(rpcUrl);
+    this.subscribed = isWebSocketUrl(rpcUrl);
+  }
+
+  /**
+   * จำนวน transactions ที่ยังไม่ได้ receipt
+   */
+  get pending(): number {
+    return this.trackedCount;
+  }
+
+  /**
+   * เริ่มติดตาม blocks ตั้งแต่ fromBlock
+   */
+  start(fromBlock: number): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.lastProcessedBlock = fromBlock - 1;
+    if (this.subscribed) {
+      void this.provider.on('block', this.onNewHead);
+    }
+    this.loop = this.run();
+  }
+
+  /**
+   * ติดตาม transaction ที่ส่งแล้ว คืนค่าผลลัพธ์เมื่อได้ receipt (หรือ failed เมื่อหมดเวลา)
+   */
+  track(sent: TransactionResult): Promise<TransactionResult> {
+    return new Promise(resolve => {
+      this.outstanding.set(sent.hash.toLowerCase(), { sent, resolve, chain: [sent.hash], lastSubmitted: sent.timestamp });
+      this.trackedCount++;
+      this.checkRecent(sent.hash);
+    });
+  }
+
+  /**
+   * เพิ่ม replacement (nonce เดิม fee สูงกว่า) ของ transaction ที่ติดตามอยู่ และบันทึก chain ลงใน sent.replacementChain
+   */
+  replace(sent: TransactionResult, replacement: TransactionResult): void {
+    const tracked = this.outstanding.get(sent.hash.toLowerCase());
+    if (!tracked) {
+      return;
+    }
+    tracked.chain.push(replacement.hash);
+    tracked.lastSubmitted = replacement.timestamp;
+    sent.replacementChain = [...tracked.chain];
+    this.outstanding.set(replacement.hash.toLowerCase(), tracked);
+    this.checkRecent(replacement.hash);
+  }
+
+  /**
+   * เลื่อนเวลาที่จะนับว่า transaction ค้าง (เช่นเมื่อส่ง replacement ไม่สำเร็จ)
+   */
+  postpone(sent: TransactionResult): void {
+    const tracked = this.outstanding.get(sent.hash.toLowerCase());
+    if (tracked) {
+      tracked.lastSubmitted = Date.now();
+    }
+  }
+
+  /**
+   * transactions ที่ยังไม่ได้ receipt นานกว่า age (ms) นับจากการส่งครั้งล่าสุดของ chain
+   */
+  stuck(age: number): TransactionResult[] {
+    const cutoff = Date.now() - age;
+    return [...this.trackedTransactions()]
+      .filter(tracked => tracked.lastSubmitted <= cutoff)
+      .map(tracked => tracked.sent);
+  }
+
+  /**
+   * รอจนทุก transaction ได้ receipt หรือครบ timeout แล้วตรวจ receipts ที่เหลือรอบสุดท้าย
+   */
+  async drain(timeout: number): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (this.trackedCount > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(POLL_INTERVAL, deadline - Date.now())));
+    }
+
+    // ตรวจ receipt ของ transactions ที่เหลือ (เช่นถูก mine ใน block ที่หลุดจาก recent blocks)
+    // ทีละชุดพร้อมกัน แทนการเรียก RPC ทีละรายการเมื่อเหลือหลายพันรายการ
+    const hashes = [...this.outstanding.keys()];
+    for (let i = 0; i < hashes.length; i += DRAIN_RECEIPT_BATCH) {
+      const receipts = await Promise.all(hashes.slice(i, i + DRAIN_RECEIPT_BATCH).map(hash => this.fetchReceipt(hash)));
+      for (const receipt of receipts) {
+        if (receipt) {
+          this.settle(receipt);
+        }
+      }
+    }
+
+    for (const tracked of this.trackedTransactions()) {
+      this.forget(tracked);
+      tracked.resolve({
+        hash: tracked.sent.hash,
+        status: 'failed',
+        timestamp: tracked.sent.timestamp,
+        error: 'Confirmation timeout',
+        errorCategory: 'timeout',
+        confirmationTime: Date.now() - tracked.sent.timestamp,
+        ...(tracked.chain.length > 1 && { replacementChain: [...tracked.chain] })
+      });
+    }
+  }
+
+  /**
+   * หยุดติดตาม blocks และปิดการเชื่อมต่อ
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.wakeUp?.();
+    await this.loop;
+    // destroy() ยกเลิก subscriptions ให้เอง (เรียก off() ก่อนจะทำให้ eth_unsubscribe ถูกยกเลิกกลางทาง)
+    if (!this.provider.destroyed) {
+      this.provider.destroy();
+    }
+  }
+
+  /**
+   * Loop หลัก: ประมวลผลทุก block ใหม่ตามลำดับ
+   */
+  private async run(): Promise<void> {
+    while (this.running) {
+      try {
+        const latest = await this.provider.getBlockNumber();
+        while (this.running && this.lastProcessedBlock < latest) {
+          await this.processBlock(this.lastProcessedBlock + 1);
+          this.lastProcessedBlock++;
+        }
+      } catch {
+        // ลองใหม่รอบถัดไป (เช่น RPC timeout หรือ block ยังไม่พร้อม)
+      }
+      await this.sleep(this.subscribed ? SUBSCRIPTION_FALLBACK_INTERVAL : POLL_INTERVAL);
+    }
+  }
+
+  /**
+   * จับคู่ transactions ใน block กับ transactions ที่ติดตามอยู่
+   */
+  private async processBlock(blockNumber: number): Promise<void> {
+    if (this.blockReceiptsSupported) {
+      const receipts = await this.fetchBlockReceipts(blockNumber);
+      if (receipts) {
+        this.remember(blockNumber, receipts.map(receipt => receipt.hash));
+        const matched = receipts.filter(receipt => this.outstanding.has(receipt.hash));
+        matched.forEach(receipt => this.settle(receipt));
+        const update: BlockUpdate = { number: blockNumber, transactionCount: receipts.length, confirmed: matched.length };
+        this.emit('block', update);
+        return;
+      }
+    }
+
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    const hashes = block.transactions.map(hash => hash.toLowerCase());
+    this.remember(blockNumber, hashes);
+
+    const matched = hashes.filter(hash => this.outstanding.has(hash));
+    const receipts = await Promise.all(matched.map(hash => this.fetchReceipt(hash)));
+    for (const receipt of receipts) {
+      if (receipt) {
+        this.settle(receipt);
+      }
+    }
+    const update: BlockUpdate = {
+      number: blockNumber,
+      transactionCount: hashes.length,
+      confirmed: matched.length,
+      timestamp: block.timestamp
+    };
+    this.emit('block', update);
+  }
+
+  /**
+   * ดึง receipts ทั้ง block ด้วย eth_getBlockReceipts (คืนค่า null ถ้า node ไม่รองรับ)
+   *
+   * error อื่น (เช่น rate limit หรือ timeout) และ block ที่ node ยังไม่มี (ผลเป็น null เช่น node ที่ตามหลัง
+   * node อื่นใน load balancer) จะ throw เพื่อให้ loop ลอง block นี้ใหม่รอบถัดไป แทนที่จะเลิกใช้ method นี้ถาวร
+   */
+  private async fetchBlockReceipts(blockNumber: number): Promise<ReceiptInfo[] | null> {
+    let raw: unknown;
+    try {
+      raw = await this.provider.send('eth_getBlockReceipts', [ethers.toQuantity(blockNumber)]);
+    } catch (error) {
+      if (!isUnsupportedMethod(error)) {
+        throw error;
+      }
+      this.blockReceiptsSupported = false;
+      return null;
+    }
+    if (raw === null) {
+      throw new Error(`Receipts of block ${blockNumber} not available yet`);
+    }
+    if (!Array.isArray(raw)) {
+      this.blockReceiptsSupported = false;
+      return null;
+    }
+    const receipts: unknown[] = raw;
+    if (!receipts.every(isRawReceipt)) {
+      throw new Error(`Unexpected eth_getBlockReceipts result for block ${blockNumber}`);
+    }
+
+    return receipts.map(receipt => ({
+      hash: String(receipt.transactionHash).toLowerCase(),
+      status: receipt.status != null ? Number(receipt.status) : null,
+      gasUsed: BigInt(receipt.gasUsed ?? 0),
+      gasPrice: BigInt(receipt.effectiveGasPrice ?? receipt.gasPrice ?? 0),
+      blockNumber: Number(receipt.blockNumber),
+      blockHash: receipt.blockHash,
+      contractAddress: receipt.contractAddress ?? null
+    }));
+  }
+
+  /**
+   * ดึง receipt ของ transaction เดียว
+   */
+  private async fetchReceipt(hash: string): Promise<ReceiptInfo | null> {
+    try {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (!receipt) {
+        return null;
+      }
+      return {
+        hash: receipt.hash.toLowerCase(),
+        status: receipt.status,
+        gasUsed: receipt.gasUsed,
+        gasPrice: receipt.gasPrice,
+        blockNumber: receipt.blockNumber,
+        blockHash: receipt.blockHash,
+        contractAddress: receipt.contractAddress
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * บันทึกผลของ transaction ที่ได้ receipt แล้ว
+   */
+  private settle(receipt: ReceiptInfo): void {
+    const tracked = this.outstanding.get(receipt.hash);
+    if (!tracked) {
+      return;
+    }
+    this.forget(tracked);
+
+    // ใช้ hash จาก chain เพื่อคงตัวพิมพ์เดิม (อาจเป็น replacement ไม่ใช่ transaction แรก)
+    const hash = tracked.chain.find(hash => hash.toLowerCase() === receipt.hash) ?? receipt.hash;
+    tracked.resolve({
+      hash,
+      status: receipt.status === 1 ? 'success' : 'failed',
+      timestamp: tracked.sent.timestamp,
+      gasUsed: Number(receipt.gasUsed),
+      gasPrice: ethers.formatUnits(receipt.gasPrice, 'gwei'),
+      confirmationTime: Date.now() - tracked.sent.timestamp,
+      blockNumber: receipt.blockNumber,
+      blockHash: receipt.blockHash,
+      ...(receipt.contractAddress && { contractAddress: receipt.contractAddress }),
+      ...(receipt.status !== 1 && { error: 'Transaction reverted', errorCategory: 'reverted' as const }),
+      ...(tracked.chain.length > 1 && { replacementChain: [...tracked.chain] })
+    });
+  }
+
+  /**
+   * เลิกติดตามทุก hash ใน chain ของ transaction
+   */
+  private forget(tracked: TrackedTransaction): void {
+    for (const hash of tracked.chain) {
+      this.outstanding.delete(hash.toLowerCase());
+    }
+    this.trackedCount--;
+  }
+
+  /**
+   * Transactions ที่ติดตามอยู่ (ไม่ซ้ำแม้มีหลาย hash ใน chain)
+   */
+  private trackedTransactions(): Set<TrackedTransaction> {
+    return new Set(this.outstanding.values());
+  }
+
+  /**
+   * transaction อาจถูก mine ใน block ที่ประมวลผลไปแล้วก่อนที่การส่งจะ return
+   */
+  private checkRecent(hash: string): void {
+    if (this.recentHashes.has(hash.toLowerCase())) {
+      void this.fetchReceipt(hash.toLowerCase()).then(receipt => {
+        if (receipt) {
+          this.settle(receipt);
+        }
+      });
+    }
+  }
+
+  /**
+   * จำ transaction hashes ของ blocks ล่าสุด
+   */
+  private remember(blockNumber: number, hashes: string[]): void {
+    for (const hash of hashes) {
+      this.recentHashes.set(hash, blockNumber);
+    }
+    for (const [hash, number] of this.recentHashes) {
+      if (number <= blockNumber - RECENT_BLOCKS) {
+        this.recentHashes.delete(hash);
+      }
+    }
+  }
+
+  /**
+   * รอจนถึงรอบถัดไปของ loop (stop() ปลุกให้จบก่อนได้)
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.wakeUp = null;
+        resolve();
+      }, ms);
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        this.wakeUp = null;
+        resolve();
+      };
+    });
+  }
+}
+
+/**
+ * ตรวจว่าเป็น receipt ในรูปแบบ JSON-RPC ที่มี fields ที่ต้องใช้
+ */
+function isRawReceipt(value: unknown): value is RawReceipt {
+  return typeof value === 'object' && value !== null
+    && 'transactionHash' in value && typeof value.transactionHash === 'string'
+    && 'blockNumber' in value && typeof value.blockNumber === 'string'
+    && 'blockHash' in value && typeof value.blockHash === 'string';
+}
@@ -0,0 +1,395 @@
+import * as fs from 'fs';
+import { AssertionResult, LatencyStats, LoadTestConfig, LoadTestMetrics, TestResults } from '../types';
+
+// ขนาดของกราฟ SVG (px)
+const CHART_WIDTH = 900;
+const CHART_HEIGHT = 260;
+const MARGIN = { top: 20, right: 20, bottom: 40, left: 60 };
+
+const COLORS = ['#2563eb', '#f97316', '#16a34a', '#dc2626', '#9333ea'];
+
+interface Series {
+  name: string;
+  color: string;
+  points: [number, number][];
+}
+
+interface BarSeries {
+  name: string;
+  color: string;
+  values: number[];
+}
+
+/**
+ * ข้อมูล results ที่บันทึกเป็นไฟล์ JSON (ไม่รวม private key และ mnemonic)
+ */
+export function createResults(metrics: LoadTestMetrics, config: LoadTestConfig, assertions?: AssertionResult[]): TestResults {
+  const results: TestResults = {
+    timestamp: new Date().toISOString(),
+    config: {
+      ...config,
+      ...(config.privateKey && { privateKey: '[REDACTED]' }), // ไม่บันทึก private key
+      ...(config.mnemonic && { mnemonic: '[REDACTED]' })
+    },
+    metrics,
+    summary: {
+      successRate: metrics.totalTransactions > 0
+        ? (metrics.successfulTransactions / metrics.totalTransactions * 100).toFixed(2) + '%'
+        : '0%',
+      avgTPS: metrics.averageTPS.toFixed(2),
+      peakTPS: metrics.peakTPS.toFixed(2)
+    }
+  };
+  if (assertions) {
+    results.assertions = assertions;
+  }
+  return results;
+}
+
+/**
+ * โหลดไฟล์ results ที่บันทึกด้วย --output
+ */
+export function loadResults(filename: string): TestResults {
+  let results: TestResults;
+  try {
+    results = JSON.parse(fs.readFileSync(filename, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read results file ${filename}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!results || typeof results.metrics !== 'object' || typeof results.config !== 'object') {
+    throw new Error(`${filename} is not a results file (expected the JSON written by --output)`);
+  }
+  return results;
+}
+
+/**
+ * สร้างรายงาน HTML ไฟล์เดียว (ไม่ต้องใช้ internet) จาก results ของการทดสอบ
+ */
+export function renderHtmlReport(results: TestResults): string {
+  const { metrics, config } = results;
+  const sections = [
+    renderSummary(results),
+    renderAssertionSection(results.assertions),
+    renderTpsSection(metrics),
+    renderLatencySection(metrics),
+    renderBlockSection(metrics),
+    renderErrorSection(metrics),
+    renderConfigSection(config)
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Load Test Report - ${escapeHtml(results.timestamp)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; margin: 0 auto; max-width: 960px; padding: 24px; color: #1f2937; }
+  h1 { margin-bottom: 4px; }
+  h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin-top: 36px; }
+  .muted { color: #6b7280; }
+  .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin-top: 16px; }
+  .card { background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 6px; padding: 12px; }
+  .card .value { font-size: 22px; font-weight: 600; }
+  .card .label { font-size: 12px; color: #6b7280; text-transform: uppercase; }
+  table { border-collapse: collapse; width: 100%; margin-top: 12px; font-size: 14px; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; vertical-align: top; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  code { font-size: 12px; word-break: break-all; }
+  svg text { font-size: 11px; fill: #4b5563; }
+</style>
+</head>
+<body>
+<h1>Ethereum Load Test Report</h1>
+<div class="muted">${escapeHtml(results.timestamp)} · ${escapeHtml(config.rpcUrl)}</div>
+${sections.filter(Boolean).join('\n')}
+</body>
+</html>
+`;
+}
+
+function renderSummary(results: TestResults): string {
+  const { metrics } = results;
+  const cards: [string, string][] = [
+    ['Transactions', String(metrics.totalTransactions)],
+    ['Successful', String(metrics.successfulTransactions)],
+    ['Failed', String(metrics.failedTransactions)],
+    ['Success Rate', results.summary.successRate],
+    ['Average TPS', metrics.averageTPS.toFixed(2)],
+    ['Peak TPS', metrics.peakTPS.toFixed(2)],
+    ['Chain TPS', metrics.chainStats ? metrics.chainStats.ownTPS.toFixed(2) : '-'],
+    ['Duration', `${(metrics.totalDuration / 1000).toFixed(2)}s`],
+    ['Offered TPS', metrics.offeredTPS.toFixed(2)],
+    ['Avg Confirmation', `${(metrics.averageConfirmationTime / 1000).toFixed(2)}s`],
+    ['Gas Used', metrics.gasUsedTotal.toLocaleString('en-US')],
+    ['Estimated Cost', `${metrics.totalCost} ETH`]
+  ];
+
+  return `<div class="cards">
+${cards.map(([label, value]) => `<div class="card"><div class="label">${escapeHtml(label)}</div><div class="value">${escapeHtml(value)}</div></div>`).join('\n')}
+</div>`;
+}
+
+function renderAssertionSection(assertions: AssertionResult[] | undefined): string {
+  if (!assertions || assertions.length === 0) {
+    return '';
+  }
+  const failed = assertions.filter(assertion => !assertion.passed).length;
+  return `<h2>Assertions</h2>
+<p class="muted">${failed > 0 ? `${failed} of ${assertions.length} failed` : `All ${assertions.length} passed`}</p>
+<table>
+<tr><th>Assertion</th><th class="num">Actual</th><th>Result</th></tr>
+${assertions.map(assertion => `<tr><td>${escapeHtml(assertion.expression)}</td>` +
+  `<td class="num">${assertion.actual === null ? 'n/a' : escapeHtml(formatNumber(assertion.actual) + (assertion.unit === 'count' ? '' : ` ${assertion.unit}`))}</td>` +
+  `<td style="color: ${assertion.passed ? '#16a34a' : '#dc2626'}; font-weight: 600">${assertion.passed ? 'PASS' : 'FAIL'}</td></tr>`).join('\n')}
+</table>`;
+}
+
+function renderTpsSection(metrics: LoadTestMetrics): string {
+  const snapshots = metrics.tpsSnapshots ?? [];
+  const parts = ['<h2>Throughput</h2>'];
+  if (snapshots.length < 2) {
+    parts.push('<p class="muted">Not enough TPS snapshots were recorded for a chart.</p>');
+  } else {
+    const seconds = (timestamp: number): number => (timestamp - metrics.startTime) / 1000;
+    const interval: [number, number][] = snapshots.slice(1).map((snapshot, i) => {
+      const previous = snapshots[i]!;
+      const elapsed = (snapshot.timestamp - previous.timestamp) / 1000;
+      return [seconds(snapshot.timestamp), elapsed > 0 ? (snapshot.successCount - previous.successCount) / elapsed : 0];
+    });
+    parts.push(lineChart([
+      { name: 'Confirmed TPS (per interval)', color: COLORS[0]!, points: interval },
+      { name: 'Average TPS', color: COLORS[1]!, points: snapshots.map(snapshot => [seconds(snapshot.timestamp), snapshot.tps]) }
+    ], 'seconds since start', 'tx/s'));
+  }
+
+  const samples = metrics.txpoolStats?.samples ?? [];
+  if (samples.length > 1) {
+    const seconds = (timestamp: number): number => (timestamp - metrics.startTime) / 1000;
+    parts.push('<h3>Node TxPool</h3>');
+    parts.push(lineChart([
+      { name: 'Pending', color: COLORS[0]!, points: samples.map(sample => [seconds(sample.timestamp), sample.pending]) },
+      { name: 'Queued', color: COLORS[3]!, points: samples.map(sample => [seconds(sample.timestamp), sample.queued]) }
+    ], 'seconds since start', 'transactions'));
+  }
+  return parts.join('\n');
+}
+
+function renderLatencySection(metrics: LoadTestMetrics): string {
+  const rows: [string, LatencyStats][] = [['Submit', metrics.submitLatency], ['Inclusion', metrics.inclusionLatency]];
+  if (metrics.mempoolLatency) {
+    rows.push(['Mempool', metrics.mempoolLatency]);
+  }
+  const measured = rows.filter(([, stats]) => stats && stats.count > 0);
+  if (measured.length === 0) {
+    return '';
+  }
+
+  const parts = ['<h2>Latency</h2>', table(
+    ['', 'Count', 'Min', 'p50', 'p90', 'p95', 'p99', 'Max'],
+    measured.map(([label, stats]) => [
+      label,
+      String(stats.count),
+      ...[stats.min, stats.p50, stats.p90, stats.p95, stats.p99, stats.max].map(formatLatency)
+    ]),
+    1
+  )];
+
+  // histogram ใช้ buckets เดียวกันทุกประเภท แสดงเฉพาะช่วงที่มีข้อมูล
+  const buckets = measured[0]![1].histogram;
+  const used = buckets.map((_, i) => measured.some(([, stats]) => (stats.histogram[i]?.count ?? 0) > 0));
+  const first = used.indexOf(true);
+  const last = used.lastIndexOf(true);
+  if (first !== -1) {
+    const labels = buckets.slice(first, last + 1)
+      .map(bucket => bucket.upperBound === null ? '> max' : `≤ ${formatLatency(bucket.upperBound)}`);
+    parts.push(barChart(
+      labels,
+      measured.map(([label, stats], i) => ({
+        name: label,
+        color: COLORS[i]!,
+        values: stats.histogram.slice(first, last + 1).map(bucket => bucket.count)
+      })),
+      false,
+      'transactions'
+    ));
+  }
+  return parts.join('\n');
+}
+
+function renderBlockSection(metrics: LoadTestMetrics): string {
+  const chain = metrics.chainStats;
+  if (!chain || chain.blocks.length === 0) {
+    return '';
+  }
+
+  const labels = chain.blocks.map(block => String(block.number));
+  return [
+    '<h2>Blocks</h2>',
+    `<p class="muted">${chain.blockCount} blocks (${chain.startBlock} - ${chain.endBlock}), ` +
+      `${chain.ownTransactions} test / ${chain.foreignTransactions} foreign transactions, ` +
+      `average gas utilization ${(chain.averageGasUtilization * 100).toFixed(2)}%, ` +
+      `average block interval ${chain.averageBlockInterval.toFixed(2)}s</p>`,
+    '<h3>Transactions per Block</h3>',
+    barChart(labels, [
+      { name: 'Test transactions', color: COLORS[0]!, values: chain.blocks.map(block => block.ownTransactions) },
+      { name: 'Foreign transactions', color: COLORS[1]!, values: chain.blocks.map(block => block.foreignTransactions) }
+    ], true, 'transactions'),
+    '<h3>Gas Fill</h3>',
+    barChart(labels, [
+      { name: 'Gas used / gas limit (%)', color: COLORS[2]!, values: chain.blocks.map(block => block.gasUtilization * 100) }
+    ], false, '%')
+  ].join('\n');
+}
+
+function renderErrorSection(metrics: LoadTestMetrics): string {
+  const errors = metrics.errorStats ?? [];
+  if (errors.length === 0) {
+    return '<h2>Errors</h2>\n<p class="muted">No errors.</p>';
+  }
+  return '<h2>Errors</h2>\n' + table(
+    ['Category', 'Send', 'Receipt', 'Retryable', 'Example'],
+    errors.map(stats => [stats.category, String(stats.send), String(stats.receipt), stats.retryable ? 'yes' : 'no', stats.example]),
+    1,
+    3
+  );
+}
+
+function renderConfigSection(config: LoadTestConfig): string {
+  const rows = Object.entries(config)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, typeof value === 'object' ? JSON.stringify(value) : String(value)]);
+  return '<h2>Configuration</h2>\n' + table(['Setting', 'Value'], rows, 2);
+}
+
+/**
+ * ตาราง HTML (columns ตั้งแต่ numericFrom ถึงก่อน numericTo จัดชิดขวา)
+ */
+function table(headers: string[], rows: string[][], numericFrom: number, numericTo: number = headers.length): string {
+  const align = (i: number): string => i >= numericFrom && i < numericTo ? ' class="num"' : '';
+  const cell = (value: string, i: number): string => `<td${align(i)}>${i === headers.length - 1 && value.length > 80 ? `<code>${escapeHtml(value)}</code>` : escapeHtml(value)}</td>`;
+  return `<table>
+<tr>${headers.map((header, i) => `<th${align(i)}>${escapeHtml(header)}</th>`).join('')}</tr>
+${rows.map(row => `<tr>${row.map(cell).join('')}</tr>`).join('\n')}
+</table>`;
+}
+
+/**
+ * กราฟเส้น SVG
+ */
+function lineChart(series: Series[], xLabel: string, yLabel: string): string {
+  const xs = series.flatMap(s => s.points.map(([x]) => x));
+  const xMin = Math.min(...xs);
+  const xMax = Math.max(...xs) > xMin ? Math.max(...xs) : xMin + 1;
+  const yMax = niceMax(Math.max(...series.flatMap(s => s.points.map(([, y]) => y))));
+  const plotWidth = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+  const px = (x: number): number => MARGIN.left + (x - xMin) / (xMax - xMin) * plotWidth;
+  const py = (y: number): number => MARGIN.top + plotHeight - y / yMax * plotHeight;
+
+  const xTicks = Array.from({ length: 6 }, (_, i) => xMin + (xMax - xMin) * i / 5);
+  const lines = series.map(s =>
+    `<polyline fill="none" stroke="${s.color}" stroke-width="2" points="${s.points.map(([x, y]) => `${px(x).toFixed(1)},${py(y).toFixed(1)}`).join(' ')}"/>`
+  );
+
+  return svg([
+    ...axes(yMax, yLabel, plotWidth, plotHeight),
+    ...xTicks.map(x => `<text x="${px(x).toFixed(1)}" y="${MARGIN.top + plotHeight + 16}" text-anchor="middle">${formatNumber(x)}</text>`),
+    `<text x="${MARGIN.left + plotWidth / 2}" y="${CHART_HEIGHT - 4}" text-anchor="middle">${escapeHtml(xLabel)}</text>`,
+    ...lines,
+    ...legend(series)
+  ]);
+}
+
+/**
+ * กราฟแท่ง SVG (stacked = ซ้อนกัน, ไม่เช่นนั้นวางเรียงกันในแต่ละกลุ่ม)
+ */
+function barChart(labels: string[], series: BarSeries[], stacked: boolean, yLabel: string): string {
+  const totals = labels.map((_, i) => stacked
+    ? series.reduce((sum, s) => sum + (s.values[i] ?? 0), 0)
+    : Math.max(...series.map(s => s.values[i] ?? 0)));
+  const yMax = niceMax(Math.max(...totals));
+  const plotWidth = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+  const band = plotWidth / Math.max(labels.length, 1);
+  const barWidth = stacked ? band * 0.8 : band * 0.8 / series.length;
+  const scale = (value: number): number => value / yMax * plotHeight;
+
+  const bars: string[] = [];
+  labels.forEach((_, i) => {
+    let offset = 0;
+    series.forEach((s, j) => {
+      const value = s.values[i] ?? 0;
+      const height = scale(value);
+      const x = MARGIN.left + band * i + band * 0.1 + (stacked ? 0 : barWidth * j);
+      const y = MARGIN.top + plotHeight - height - offset;
+      bars.push(`<rect x="${x.toFixed(1)}" y="${y.toFixed(1)}" width="${Math.max(barWidth, 0.5).toFixed(1)}" height="${height.toFixed(1)}" fill="${s.color}"><title>${escapeHtml(labels[i]!)} · ${escapeHtml(s.name)}: ${formatNumber(value)}</title></rect>`);
+      if (stacked) {
+        offset += height;
+      }
+    });
+  });
+
+  // แสดง labels ไม่เกินประมาณ 20 ตัวเพื่อไม่ให้ทับกัน
+  const every = Math.ceil(labels.length / 20);
+  const xLabels = labels
+    .map((label, i) => i % every === 0
+      ? `<text x="${(MARGIN.left + band * (i + 0.5)).toFixed(1)}" y="${MARGIN.top + plotHeight + 16}" text-anchor="middle">${escapeHtml(label)}</text>`
+      : '')
+    .filter(Boolean);
+
+  return svg([...axes(yMax, yLabel, plotWidth, plotHeight), ...bars, ...xLabels, ...legend(series)]);
+}
+
+/**
+ * แกน y พร้อมเส้น grid
+ */
+function axes(yMax: number, yLabel: string, plotWidth: number, plotHeight: number): string[] {
+  const elements: string[] = [];
+  for (let i = 0; i <= 4; i++) {
+    const value = yMax * i / 4;
+    const y = MARGIN.top + plotHeight - plotHeight * i / 4;
+    elements.push(`<line x1="${MARGIN.left}" x2="${MARGIN.left + plotWidth}" y1="${y}" y2="${y}" stroke="#e5e7eb"/>`);
+    elements.push(`<text x="${MARGIN.left - 6}" y="${y + 4}" text-anchor="end">${formatNumber(value)}</text>`);
+  }
+  elements.push(`<text transform="translate(14 ${MARGIN.top + plotHeight / 2}) rotate(-90)" text-anchor="middle">${escapeHtml(yLabel)}</text>`);
+  return elements;
+}
+
+function legend(series: { name: string; color: string }[]): string[] {
+  return series.map((s, i) => {
+    const x = CHART_WIDTH - MARGIN.right - 200;
+    const y = MARGIN.top + 14 * i;
+    return `<rect x="${x}" y="${y - 8}" width="10" height="10" fill="${s.color}"/><text x="${x + 14}" y="${y + 1}">${escapeHtml(s.name)}</text>`;
+  });
+}
+
+function svg(elements: string[]): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" width="100%">\n${elements.join('\n')}\n</svg>`;
+}
+
+/**
+ * ค่าสูงสุดของแกนที่ปัดเป็น 1, 2, 5 × 10^n
+ */
+function niceMax(value: number): number {
+  if (!(value > 0)) {
+    return 1;
+  }
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  return [1, 2, 5, 10].map(step => step * magnitude).find(step => value <= step)!;
+}
+
+function formatNumber(value: number): string {
+  return Math.abs(value) >= 100 || Number.isInteger(value) ? String(Math.round(value)) : value.toFixed(2);
+}
+
+function formatLatency(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(2)}s`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
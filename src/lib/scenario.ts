@@ -0,0 +1,35 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { isSettingKey } from './settings';
+import { SettingsLayer } from '../types';
+
+/**
+ * โหลด scenario/config file (YAML หรือ JSON) ที่มี keys ตาม LoadTestConfig และ LoadTestOptions
+ *
+ * ค่าจะถูกตรวจสอบตอนรวมกับ flags และ environment variables ใน resolveSettings()
+ */
+export function loadScenario(filename: string): SettingsLayer {
+  let raw: unknown;
+  try {
+    const content = fs.readFileSync(filename, 'utf8');
+    const extension = path.extname(filename).toLowerCase();
+    raw = extension === '.yaml' || extension === '.yml' ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to read scenario file ${filename}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Scenario file ${filename} must contain an object of settings`);
+  }
+
+  const layer: SettingsLayer = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!isSettingKey(key)) {
+      throw new Error(`Unknown setting "${key}" in scenario file ${filename}`);
+    }
+    if (value !== null && value !== undefined) {
+      layer[key] = { value, source: `${key} in ${filename}` };
+    }
+  }
+  return layer;
+}
@@ -0,0 +1,109 @@
+import { loadEnvSettings, resolveSettings } from './settings';
+import { rampProfile } from './load-profile';
+import { Settings, SettingsLayer } from '../types';
+
+const REQUIRED = {
+  RPC_URL: 'http://localhost:8545',
+  TARGET_ADDRESS: '0x742d35Cc6634C0532925A3B8D4C9dB96C4B4d8B6',
+  PRIVATE_KEY: '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+};
+
+/**
+ * สร้าง layer จาก flags หรือ scenario file (source ใช้แสดงใน error เท่านั้น)
+ */
+function layer(source: string, values: Partial<Record<keyof Settings, unknown>>): SettingsLayer {
+  const result: SettingsLayer = {};
+  for (const [key, value] of Object.entries(values)) {
+    result[key as keyof Settings] = { value, source: `${key} in ${source}` };
+  }
+  return result;
+}
+
+function resolve(env: NodeJS.ProcessEnv, ...layers: SettingsLayer[]): ReturnType<typeof resolveSettings> {
+  return resolveSettings([loadEnvSettings({ ...REQUIRED, ...env }), ...layers]);
+}
+
+describe('resolveSettings', () => {
+  it('applies defaults when nothing else is set', () => {
+    const { config, options } = resolve({});
+
+    expect(config).toMatchObject({ transactionCount: 100, concurrency: 10, walletCount: 10, value: '0', drainTimeout: 300 });
+    expect(options).toMatchObject({ logLevel: 'info', maxRetries: 3, retryDelay: 1000 });
+  });
+
+  it('lets scenario files override the environment and flags override both', () => {
+    const scenario = layer('scenario.yaml', { concurrency: 20, value: '0.1' });
+    const flags = layer('flags', { concurrency: 50 });
+
+    const { config } = resolve({ CONCURRENCY: '5', VALUE: '0.5', GAS_LIMIT: '60000' }, scenario, flags);
+
+    expect(config.concurrency).toBe(50);
+    expect(config.value).toBe('0.1');
+    expect(config.gasLimit).toBe(60000);
+  });
+
+  it('ignores empty environment variables', () => {
+    expect(resolve({ CONCURRENCY: ' ' }).config.concurrency).toBe(10);
+  });
+
+  it('replaces the wallet source as a group', () => {
+    const { config } = resolve({}, layer('flags', { mnemonic: 'test test test test test test test test test test test junk' }));
+
+    expect(config.privateKey).toBeUndefined();
+    expect(config.mnemonic).toBeDefined();
+  });
+
+  it('replaces fee settings as a group', () => {
+    const { config } = resolve({ GAS_PRICE: '20', TX_TYPE: 'legacy' }, layer('flags', { maxFeePerGas: 50 }));
+
+    expect(config.gasPrice).toBeUndefined();
+    expect(config.txType).toBeUndefined();
+    expect(config.maxFeePerGas).toBe('50');
+  });
+
+  it('replaces the run length as a group', () => {
+    const { config } = resolve({ TRANSACTION_COUNT: '100', RATE: '50' }, layer('flags', { duration: 600 }));
+
+    expect(config.transactionCount).toBeUndefined();
+    expect(config).toMatchObject({ rate: 50, duration: 600 });
+  });
+
+  it('keeps the scenario send rate when a flag only changes the duration', () => {
+    const scenario = layer('scenario.yaml', { rate: 200, duration: 600 });
+    const { config } = resolve({}, scenario, layer('flags', { duration: 60 }));
+
+    expect(config).toMatchObject({ rate: 200, duration: 60 });
+    expect(config.transactionCount).toBeUndefined();
+  });
+
+  it('keeps the scenario load profile when a flag only changes the count', () => {
+    const profile = rampProfile(10, 100, 60);
+    const { config } = resolve({}, layer('scenario.yaml', { profile }), layer('flags', { transactionCount: 500 }));
+
+    expect(config.profile).toEqual(profile);
+    expect(config.transactionCount).toBe(500);
+  });
+
+  it('drops the rate from the environment when a scenario file sets a load profile', () => {
+    const profile = rampProfile(10, 100, 60);
+    const { config } = resolve({ RATE: '50' }, layer('scenario.yaml', { profile }));
+
+    expect(config.rate).toBeUndefined();
+    expect(config.profile).toEqual(profile);
+  });
+
+  it('keeps groups from earlier layers that later layers do not touch', () => {
+    const { config } = resolve({ GAS_PRICE: '20', DURATION: '30' }, layer('flags', { concurrency: 4 }));
+
+    expect(config).toMatchObject({ gasPrice: '20', duration: 30, concurrency: 4 });
+    expect(config.transactionCount).toBeUndefined();
+  });
+
+  it('reports the source of an invalid value', () => {
+    expect(() => resolve({ CONCURRENCY: 'ten' })).toThrow('Invalid CONCURRENCY: "ten"');
+  });
+
+  it('rejects a target address with a bad checksum', () => {
+    expect(() => resolve({ TARGET_ADDRESS: '0x742d35Cc6634C0532925A3B8D4C9dB96C4B4d8b6' })).toThrow(/bad EIP-55 checksum/);
+  });
+});
@@ -0,0 +1,382 @@
+import { ethers } from 'ethers';
+import { parseProfileDefinition } from './load-profile';
+import { parseAssertion } from './assertions';
+import { Assertion, LoadTestConfig, LoadTestOptions, RpcEndpoint, Settings, SettingsLayer, WorkloadConfig } from '../types';
+
+type FieldParser<T> = (value: unknown) => T;
+
+const WORKLOAD_TYPES = ['eth-transfer', 'erc20-transfer', 'contract-call', 'deploy'];
+
+// settings ที่เลือกได้เพียงแหล่งเดียว ถ้า layer ที่สำคัญกว่ากำหนด key ใดในกลุ่ม จะไม่ใช้ key อื่นในกลุ่มจาก layer ก่อนหน้า
+const EXCLUSIVE_GROUPS: (keyof Settings)[][] = [
+  ['privateKey', 'mnemonic', 'keyFile'],
+  ['rpcUrl', 'rpcEndpoints'],
+  ['txType', 'gasPrice', 'maxFeePerGas', 'maxPriorityFeePerGas'],
+  ['transactionCount', 'duration'],
+  ['rate', 'profile']
+];
+
+// ชื่อ environment variables (รวมถึงใน .env) และ setting ที่ตรงกัน
+const ENV_SETTINGS: Record<string, keyof Settings> = {
+  RPC_URL: 'rpcUrl',
+  WS_URL: 'wsUrl',
+  PRIVATE_KEY: 'privateKey',
+  MNEMONIC: 'mnemonic',
+  WALLET_COUNT: 'walletCount',
+  KEY_FILE: 'keyFile',
+  TARGET_ADDRESS: 'targetAddress',
+  TRANSACTION_COUNT: 'transactionCount',
+  CONCURRENCY: 'concurrency',
+  RATE: 'rate',
+  VALUE: 'value',
+  GAS_LIMIT: 'gasLimit',
+  GAS_PRICE: 'gasPrice',
+  TX_TYPE: 'txType',
+  MAX_FEE: 'maxFeePerGas',
+  PRIORITY_FEE: 'maxPriorityFeePerGas',
+  DURATION: 'duration',
+  DRAIN_TIMEOUT: 'drainTimeout',
+  MAX_RETRIES: 'maxRetries',
+  RETRY_DELAY: 'retryDelay',
+  LOG_LEVEL: 'logLevel',
+  VERBOSE: 'verbose',
+  OUTPUT_FILE: 'outputFile',
+  JOURNAL_FILE: 'journalFile',
+  REPORT_FILE: 'reportFile',
+  ASSERTIONS: 'assertions',
+  METRICS_PORT: 'metricsPort',
+  METRICS_HOST: 'metricsHost'
+};
+
+/**
+ * ตัวเลขจำนวนเต็ม (รับทั้ง number และ string)
+ */
+function integer(min: number): FieldParser<number> {
+  return value => {
+    const parsed = typeof value === 'string' && /^\s*-?\d+\s*$/.test(value) ? Number(value) : value;
+    if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed < min) {
+      throw new Error(`expected an integer ≥ ${min}`);
+    }
+    return parsed;
+  };
+}
+
+function port(value: unknown): number {
+  const parsed = integer(1)(value);
+  if (parsed > 65535) {
+    throw new Error('expected a port between 1 and 65535');
+  }
+  return parsed;
+}
+
+/**
+ * ตัวเลขที่มากกว่า 0 (รับทั้ง number และ string)
+ */
+function positiveNumber(value: unknown): number {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error('expected a positive number');
+  }
+  return parsed;
+}
+
+/**
+ * จำนวน ETH หรือ Gwei ในรูปทศนิยม (เก็บเป็น string เพื่อไม่เสียความละเอียด)
+ */
+function amount(value: unknown): string {
+  const text = typeof value === 'number' ? String(value) : value;
+  if (typeof text !== 'string' || !/^\d+(\.\d+)?$/.test(text.trim())) {
+    throw new Error('expected a non-negative decimal number');
+  }
+  return text.trim();
+}
+
+function text(value: unknown): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error('expected a non-empty string');
+  }
+  return value.trim();
+}
+
+function boolean(value: unknown): boolean {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : value;
+  if (normalized === 'true' || normalized === '1' || normalized === 'yes') {
+    return true;
+  }
+  if (normalized === 'false' || normalized === '0' || normalized === 'no') {
+    return false;
+  }
+  throw new Error('expected true or false');
+}
+
+function oneOf<T extends string>(choices: readonly T[]): FieldParser<T> {
+  return value => {
+    if (typeof value !== 'string' || !choices.includes(value as T)) {
+      throw new Error(`expected one of ${choices.join(', ')}`);
+    }
+    return value as T;
+  };
+}
+
+function url(value: unknown): string {
+  const parsed = text(value);
+  if (!/^(https?|wss?):\/\/\S+$/i.test(parsed)) {
+    throw new Error('expected an http(s):// or ws(s):// URL');
+  }
+  return parsed;
+}
+
+function address(value: unknown): string {
+  const parsed = text(value);
+  if (!/^0x[0-9a-fA-F]{40}$/.test(parsed)) {
+    throw new Error('expected a 0x-prefixed 20-byte address');
+  }
+  if (!ethers.isAddress(parsed)) {
+    throw new Error('bad EIP-55 checksum, use the correctly checksummed or an all-lowercase address');
+  }
+  return parsed;
+}
+
+function privateKey(value: unknown): string {
+  const parsed = text(value);
+  if (!/^(0x)?[0-9a-fA-F]{64}$/.test(parsed)) {
+    throw new Error('expected a 32-byte hex private key');
+  }
+  return parsed;
+}
+
+function mnemonic(value: unknown): string {
+  const parsed = text(value).replace(/\s+/g, ' ');
+  if (!ethers.Mnemonic.isValidMnemonic(parsed)) {
+    throw new Error('expected a valid BIP-39 mnemonic');
+  }
+  return parsed;
+}
+
+/**
+ * รายการ RPC endpoints: URL หรือ { url, weight }
+ */
+function endpoints(value: unknown): RpcEndpoint[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('expected a non-empty array of URLs or { url, weight } objects');
+  }
+  return value.map((entry, index) => {
+    const endpoint: RpcEndpoint = { url: url(typeof entry === 'string' ? entry : entry?.url) };
+    if (typeof entry === 'object' && entry.weight !== undefined) {
+      try {
+        endpoint.weight = positiveNumber(entry.weight);
+      } catch {
+        throw new Error(`invalid weight at [${index}]: ${entry.weight}`);
+      }
+    }
+    return endpoint;
+  });
+}
+
+/**
+ * แปลง workloads จาก config file หรือ flags
+ */
+function workloads(raw: unknown): WorkloadConfig[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error('expected a non-empty array');
+  }
+
+  return raw.map((entry: any, index: number) => {
+    if (!entry || !WORKLOAD_TYPES.includes(entry.type)) {
+      throw new Error(`invalid workload type at [${index}]: ${entry?.type} (expected one of ${WORKLOAD_TYPES.join(', ')})`);
+    }
+    if (entry.weight !== undefined && !(typeof entry.weight === 'number' && entry.weight > 0)) {
+      throw new Error(`invalid weight at [${index}]: ${entry.weight}`);
+    }
+    if (entry.args !== undefined && !Array.isArray(entry.args)) {
+      throw new Error(`invalid args at [${index}], expected an array`);
+    }
+    if (entry.contractAddress !== undefined && !ethers.isAddress(entry.contractAddress)) {
+      throw new Error(`invalid contractAddress at [${index}]: ${entry.contractAddress}`);
+    }
+
+    const workload: WorkloadConfig = { type: entry.type };
+    for (const key of ['name', 'contractAddress', 'abi', 'bytecode'] as const) {
+      if (entry[key] !== undefined) {
+        workload[key] = String(entry[key]);
+      }
+    }
+    if (entry.weight !== undefined) {
+      workload.weight = entry.weight;
+    }
+    if (entry.args !== undefined) {
+      workload.args = entry.args;
+    }
+    return workload;
+  });
+}
+
+/**
+ * assertions: รายการข้อความ หรือข้อความเดียวที่คั่นด้วย ; (จาก environment variable)
+ */
+function assertions(value: unknown): Assertion[] {
+  const expressions = typeof value === 'string' ? value.split(';').filter(part => part.trim() !== '') : value;
+  if (!Array.isArray(expressions) || expressions.length === 0 || expressions.some(entry => typeof entry !== 'string')) {
+    throw new Error('expected a non-empty list of expressions such as "successRate>=99"');
+  }
+  return expressions.map(parseAssertion);
+}
+
+// schema ของทุก setting ใน LoadTestConfig และ LoadTestOptions
+const SETTING_FIELDS: { [K in keyof Settings]-?: FieldParser<Settings[K]> } = {
+  rpcUrl: url,
+  rpcEndpoints: endpoints,
+  endpointStrategy: oneOf(['round-robin', 'weighted', 'sticky'] as const),
+  wsUrl: url,
+  trackPending: boolean,
+  txpoolInterval: positiveNumber,
+  privateKey,
+  mnemonic,
+  walletCount: integer(1),
+  keyFile: text,
+  targetAddress: address,
+  transactionCount: integer(1),
+  concurrency: integer(1),
+  rate: positiveNumber,
+  profile: parseProfileDefinition,
+  gasPrice: amount,
+  txType: oneOf(['legacy', 'eip2930', 'eip1559'] as const),
+  maxFeePerGas: amount,
+  maxPriorityFeePerGas: amount,
+  feeRefresh: oneOf(['per-tx', 'per-block'] as const),
+  presign: boolean,
+  rpcBatchSize: integer(1),
+  gasLimit: integer(21000),
+  value: amount,
+  workloads,
+  duration: positiveNumber,
+  drainTimeout: positiveNumber,
+  replaceAfter: positiveNumber,
+  feeBump: positiveNumber,
+  maxReplacements: integer(1),
+  verbose: boolean,
+  logLevel: oneOf(['debug', 'info', 'warn', 'error'] as const),
+  outputFile: text,
+  presignFile: text,
+  journalFile: text,
+  reportFile: text,
+  assertions,
+  metricsPort: port,
+  metricsHost: text,
+  realTimeStats: boolean,
+  maxRetries: integer(0),
+  retryDelay: integer(0)
+};
+
+/**
+ * ตรวจสอบว่าเป็นชื่อ setting ที่รองรับหรือไม่
+ */
+export function isSettingKey(key: string): key is keyof Settings {
+  return Object.prototype.hasOwnProperty.call(SETTING_FIELDS, key);
+}
+
+/**
+ * ดึง settings จาก environment variables (ค่าว่างถือว่าไม่ได้กำหนด)
+ */
+export function loadEnvSettings(env: NodeJS.ProcessEnv = process.env): SettingsLayer {
+  const layer: SettingsLayer = {};
+  for (const [name, key] of Object.entries(ENV_SETTINGS)) {
+    const value = env[name];
+    if (value !== undefined && value.trim() !== '' && !(key in layer)) {
+      layer[key] = { value, source: name };
+    }
+  }
+  return layer;
+}
+
+/**
+ * รวม settings จากหลายแหล่ง (layer หลังสำคัญกว่า) ตรวจสอบค่า แล้วเติมค่า default
+ */
+export function resolveSettings(layers: SettingsLayer[]): { config: LoadTestConfig; options: LoadTestOptions } {
+  const merged: SettingsLayer = {};
+  for (const layer of layers) {
+    for (const group of EXCLUSIVE_GROUPS) {
+      if (group.some(key => key in layer)) {
+        group.forEach(key => delete merged[key]);
+      }
+    }
+    Object.assign(merged, layer);
+  }
+
+  const settings: Record<string, unknown> = {};
+  for (const [key, setting] of Object.entries(merged)) {
+    if (!isSettingKey(key)) {
+      throw new Error(`Unknown setting ${setting!.source}`);
+    }
+    try {
+      settings[key] = SETTING_FIELDS[key](setting!.value);
+    } catch (error) {
+      const value = setting!.value;
+      const shown = typeof value === 'string' ? `"${value}"` : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      throw new Error(`Invalid ${setting!.source}: ${shown} (${error instanceof Error ? error.message : error})`);
+    }
+  }
+  const parsed = settings as Settings;
+
+  if (!parsed.rpcUrl && !parsed.rpcEndpoints) {
+    throw new Error('An RPC URL is required (--rpc, rpcUrl/rpcEndpoints in the config file or RPC_URL)');
+  }
+  if (!parsed.targetAddress) {
+    throw new Error('A target address is required (--target, targetAddress in the config file or TARGET_ADDRESS)');
+  }
+  if (!parsed.privateKey && !parsed.mnemonic && !parsed.keyFile) {
+    throw new Error('One of --private-key, --mnemonic or --key-file is required (or privateKey/mnemonic/keyFile in the config file, PRIVATE_KEY/MNEMONIC/KEY_FILE)');
+  }
+
+  const { verbose, logLevel, outputFile, presignFile, journalFile, reportFile, assertions: checks, metricsPort, metricsHost, realTimeStats, maxRetries, retryDelay, ...rest } = parsed;
+  const rpcEndpoints = rest.rpcEndpoints && rest.rpcEndpoints.length > 1 ? rest.rpcEndpoints : undefined;
+  const config: LoadTestConfig = {
+    ...rest,
+    rpcUrl: rest.rpcUrl ?? rest.rpcEndpoints![0]!.url,
+    targetAddress: parsed.targetAddress,
+    walletCount: rest.walletCount ?? 10,
+    concurrency: rest.concurrency ?? 10,
+    value: rest.value ?? '0',
+    feeRefresh: rest.feeRefresh ?? 'per-tx',
+    drainTimeout: rest.drainTimeout ?? 300
+  };
+
+  // endpoint เดียวใช้ rpcUrl ตามปกติ ส่วนหลาย endpoints ต้องมีกลยุทธ์การกระจาย
+  delete config.rpcEndpoints;
+  delete config.endpointStrategy;
+  if (rpcEndpoints) {
+    config.rpcEndpoints = rpcEndpoints;
+    config.endpointStrategy = rest.endpointStrategy
+      ?? (rpcEndpoints.some(endpoint => endpoint.weight !== undefined) ? 'weighted' : 'round-robin');
+  }
+  // ถ้าไม่ระบุจำนวน, ระยะเวลา หรือ load profile จะส่ง 100 transactions
+  if (config.transactionCount === undefined && !config.duration && !config.profile) {
+    config.transactionCount = 100;
+  }
+  if (presignFile || config.rpcBatchSize) {
+    config.presign = true;
+  }
+  if (config.replaceAfter) {
+    config.feeBump = config.feeBump ?? 10;
+    config.maxReplacements = config.maxReplacements ?? 3;
+  }
+
+  const options: LoadTestOptions = {
+    verbose: verbose ?? false,
+    logLevel: logLevel ?? 'info',
+    realTimeStats: realTimeStats ?? true,
+    maxRetries: maxRetries ?? 3,
+    retryDelay: retryDelay ?? 1000,
+    ...(outputFile && { outputFile }),
+    ...(presignFile && { presignFile }),
+    ...(journalFile && { journalFile }),
+    ...(reportFile && { reportFile }),
+    ...(checks && { assertions: checks }),
+    ...(metricsPort && { metricsPort }),
+    ...(metricsHost && { metricsHost })
+  };
+  return { config, options };
+}
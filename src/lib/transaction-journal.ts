@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JournalEntry, JournalFormat, TransactionResult } from '../types';
+
+// จำนวนบรรทัดสูงสุดที่รอเขียนระหว่างที่ disk ช้ากว่าการบันทึก (เกินนี้จะทิ้ง entries และนับเป็น dropped)
+const MAX_BUFFERED_ENTRIES = 10000;
+
+// ลำดับ columns ของไฟล์ CSV (ตรงกับ fields ของ JournalEntry)
+const CSV_COLUMNS: (keyof JournalEntry)[] = [
+  'hash',
+  'wallet',
+  'nonce',
+  'type',
+  'workload',
+  'stage',
+  'endpoint',
+  'gasPrice',
+  'maxFeePerGas',
+  'maxPriorityFeePerGas',
+  'effectiveGasPrice',
+  'gasUsed',
+  'submittedAt',
+  'ackedAt',
+  'blockNumber',
+  'receiptAt',
+  'status',
+  'errorCategory',
+  'error',
+  'replacementChain'
+];
+
+/**
+ * Class สำหรับบันทึก lifecycle ของแต่ละ transaction ลงไฟล์ (JSONL หรือ CSV) ทันทีที่ transaction จบ
+ *
+ * เขียนผ่าน write stream ทีละบรรทัดโดยไม่เก็บ entries ไว้ในหน่วยความจำ เมื่อ stream ตอบว่า buffer เต็ม
+ * จะพักบรรทัดใหม่ไว้ (ไม่เกิน MAX_BUFFERED_ENTRIES) จนกว่าจะได้ 'drain' หน่วยความจำจึงไม่โตตามความยาวการทดสอบ
+ */
+export class TransactionJournal {
+  private stream: fs.WriteStream;
+  private format: JournalFormat;
+  private error: Error | null = null;
+  private count: number = 0;
+  private droppedCount: number = 0;
+  private backlog: string[] = [];
+  private waitingForDrain: boolean = false;
+
+  constructor(filename: string, format?: JournalFormat) {
+    this.format = format ?? (path.extname(filename).toLowerCase() === '.csv' ? 'csv' : 'jsonl');
+    this.stream = fs.createWriteStream(filename);
+    this.stream.on('error', error => {
+      this.error = error;
+    });
+    if (this.format === 'csv') {
+      this.stream.write(CSV_COLUMNS.join(',') + '\n');
+    }
+  }
+
+  /**
+   * จำนวน entries ที่บันทึกแล้ว
+   */
+  get entries(): number {
+    return this.count;
+  }
+
+  /**
+   * จำนวน entries ที่ถูกทิ้งเพราะเขียนลงไฟล์ไม่ทัน
+   */
+  get dropped(): number {
+    return this.droppedCount;
+  }
+
+  /**
+   * บันทึก transaction ที่จบแล้ว (sent คือผลตอนส่ง, final คือผลจาก receipt ถ้ามี)
+   */
+  record(sent: TransactionResult, final: TransactionResult = sent): void {
+    if (this.error) {
+      return;
+    }
+    if (this.waitingForDrain && this.backlog.length >= MAX_BUFFERED_ENTRIES) {
+      this.droppedCount++;
+      return;
+    }
+    const entry = createEntry(sent, final);
+    this.write(this.format === 'csv' ? toCsvRow(entry) : JSON.stringify(entry) + '\n');
+    this.count++;
+  }
+
+  /**
+   * ปิดไฟล์ (รอจนเขียนข้อมูลที่ค้างใน buffer เสร็จ)
+   */
+  async close(): Promise<void> {
+    if (!this.stream.writableEnded) {
+      const remaining = this.backlog.join('');
+      this.backlog = [];
+      await new Promise<void>(resolve => this.stream.end(remaining, () => resolve()));
+    }
+    if (this.error) {
+      throw new Error(`Failed to write transaction journal: ${this.error.message}`);
+    }
+  }
+
+  /**
+   * เขียนบรรทัดลง stream หรือพักไว้ถ้ากำลังรอ 'drain'
+   */
+  private write(line: string): void {
+    if (this.waitingForDrain) {
+      this.backlog.push(line);
+      return;
+    }
+    if (!this.stream.write(line)) {
+      this.waitingForDrain = true;
+      this.stream.once('drain', () => this.flushBacklog());
+    }
+  }
+
+  /**
+   * เขียนบรรทัดที่พักไว้หลังได้ 'drain' (ทีละก้อน และหยุดรออีกครั้งถ้า buffer เต็ม)
+   */
+  private flushBacklog(): void {
+    this.waitingForDrain = false;
+    while (this.backlog.length > 0 && !this.stream.writableEnded) {
+      const chunk = this.backlog.splice(0, 1000).join('');
+      if (!this.stream.write(chunk)) {
+        this.waitingForDrain = true;
+        this.stream.once('drain', () => this.flushBacklog());
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * รวมข้อมูลตอนส่งและตอนได้ receipt เป็น entry เดียว
+ */
+function createEntry(sent: TransactionResult, final: TransactionResult): JournalEntry {
+  const received = final !== sent;
+  const effectiveGasPrice = received ? final.gasPrice : undefined;
+  const ackedAt = sent.submitLatency !== undefined ? (sent.submittedAt ?? sent.timestamp) + sent.submitLatency : undefined;
+  const receiptAt = received && final.confirmationTime !== undefined ? final.timestamp + final.confirmationTime : undefined;
+  // เฉพาะ fields ที่มีค่า (exactOptionalPropertyTypes ไม่ให้ใส่ undefined ใน optional fields)
+  return {
+    hash: final.hash,
+    ...(sent.from !== undefined && { wallet: sent.from }),
+    ...(sent.nonce !== undefined && { nonce: sent.nonce }),
+    ...(sent.type !== undefined && { type: sent.type }),
+    ...(sent.workload !== undefined && { workload: sent.workload }),
+    ...(sent.stage !== undefined && { stage: sent.stage }),
+    ...(sent.endpoint !== undefined && { endpoint: sent.endpoint }),
+    ...(sent.gasPrice !== undefined && { gasPrice: sent.gasPrice }),
+    ...(sent.maxFeePerGas !== undefined && { maxFeePerGas: sent.maxFeePerGas }),
+    ...(sent.maxPriorityFeePerGas !== undefined && { maxPriorityFeePerGas: sent.maxPriorityFeePerGas }),
+    ...(effectiveGasPrice !== undefined && { effectiveGasPrice }),
+    ...(final.gasUsed !== undefined && { gasUsed: final.gasUsed }),
+    submittedAt: sent.timestamp,
+    ...(ackedAt !== undefined && { ackedAt }),
+    ...(final.blockNumber !== undefined && { blockNumber: final.blockNumber }),
+    ...(receiptAt !== undefined && { receiptAt }),
+    status: final.status,
+    ...(final.errorCategory !== undefined && { errorCategory: final.errorCategory }),
+    ...(final.error !== undefined && { error: final.error }),
+    ...(final.replacementChain !== undefined && { replacementChain: final.replacementChain })
+  };
+}
+
+/**
+ * แปลง entry เป็นบรรทัด CSV
+ */
+function toCsvRow(entry: JournalEntry): string {
+  return CSV_COLUMNS.map(column => {
+    const value = entry[column];
+    const text = value === undefined ? '' : Array.isArray(value) ? value.join(' ') : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',') + '\n';
+}
@@ -1,17 +1,37 @@
 import { ethers } from 'ethers';
-import { TransactionResult, WalletInfo, NetworkInfo } from '../types';
+import { FeeOracle } from './fee-oracle';
+import { describeError, isAlreadyKnown } from './errors';
+import { NonceManager } from './nonce-manager';
+import { createSendProvider } from './provider';
+import { TransactionResult, WalletInfo, NetworkInfo, FeeSettings, TransactionCall, SignedTransaction, NonceStats, ErrorCategory } from '../types';
+
+// gas limit ของ transaction ที่ส่งเติม nonce gap (โอน 0 ETH ให้ตัวเอง)
+const GAP_FILL_GAS_LIMIT = 21000;
 
 /**
  * Class สำหรับจัดการการส่ง transactions ไปยัง Ethereum network
  */
 export class TransactionSender {
-  private provider: ethers.JsonRpcProvider;
+  private provider: ethers.JsonRpcApiProvider;
   private wallet: ethers.Wallet;
-  private nonce: number = 0;
+  private feeOracle: FeeOracle;
+  private nonces: NonceManager;
+  private ownsProvider: boolean;
 
-  constructor(rpcUrl: string, privateKey: string) {
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+  constructor(rpcUrl: string, privateKey: string, provider?: ethers.JsonRpcApiProvider, feeOracle?: FeeOracle) {
+    // ถ้ามี provider ส่งเข้ามา (เช่นจาก WalletPool) จะใช้ร่วมกันและไม่ปิดเองตอน disconnect
+    this.provider = provider ?? createSendProvider(rpcUrl);
+    this.ownsProvider = !provider;
+    this.feeOracle = feeOracle ?? new FeeOracle(this.provider);
     this.wallet = new ethers.Wallet(privateKey, this.provider);
+    this.nonces = new NonceManager(this.provider, this.wallet.address);
+  }
+
+  /**
+   * Address ของ wallet ที่ใช้ส่ง transactions
+   */
+  get address(): string {
+    return this.wallet.address;
   }
 
   /**
@@ -19,7 +39,7 @@ export class TransactionSender {
    */
   async initialize(): Promise<void> {
     try {
-      this.nonce = await this.provider.getTransactionCount(this.wallet.address, 'pending');
+      await this.nonces.initialize();
     } catch (error) {
       throw new Error(`Failed to initialize TransactionSender: ${error}`);
     }
@@ -33,7 +53,7 @@ export class TransactionSender {
     return {
       address: this.wallet.address,
       balance: ethers.formatEther(balance),
-      nonce: this.nonce
+      nonce: this.nonces.next
     };
   }
 
@@ -60,44 +80,350 @@ export class TransactionSender {
     to: string,
     value: string = '0',
     gasLimit: number = 21000,
-    gasPrice?: string
+    fees: FeeSettings = {}
+  ): Promise<TransactionResult> {
+    return this.sendCall({ to, value }, gasLimit, fees);
+  }
+
+  /**
+   * ส่ง transaction ที่มี calldata (เรียก contract หรือ deploy เมื่อไม่ระบุ to)
+   */
+  async sendCall(
+    call: TransactionCall,
+    gasLimit: number,
+    fees: FeeSettings = {},
+    via?: ethers.JsonRpcApiProvider
+  ): Promise<TransactionResult> {
+    const nonce = this.nonces.acquire();
+    const result = await this.sendWithNonce(call, gasLimit, fees, nonce, via);
+    if (result.status === 'failed') {
+      this.releaseNonce(nonce, result.errorCategory);
+    } else {
+      this.nonces.commit(nonce);
+    }
+    return result;
+  }
+
+  /**
+   * ส่ง transaction ด้วย nonce ที่กำหนด ผ่าน provider ของ wallet หรือ endpoint ที่ระบุ (via)
+   */
+  private async sendWithNonce(
+    call: TransactionCall,
+    gasLimit: number,
+    fees: FeeSettings,
+    nonce: number,
+    via?: ethers.JsonRpcApiProvider
   ): Promise<TransactionResult> {
     const startTime = Date.now();
+    const type = fees.type ?? 'legacy';
     
+    let txRequest: ethers.TransactionRequest | undefined;
+    let raw: string | undefined;
+    let sentAt = startTime;
     try {
-      const txRequest: ethers.TransactionRequest = {
-        to,
-        value: ethers.parseEther(value),
-        gasLimit,
-        nonce: this.nonce++
+      txRequest = await this.buildRequest(call, gasLimit, fees, nonce);
+      raw = await this.wallet.signTransaction(await this.wallet.populateTransaction(txRequest));
+      sentAt = Date.now();
+      const tx = await (via ?? this.provider).broadcastTransaction(raw);
+      
+      return {
+        hash: tx.hash,
+        status: 'pending',
+        timestamp: startTime,
+        submittedAt: sentAt,
+        submitLatency: Date.now() - sentAt,
+        type,
+        from: this.wallet.address,
+        nonce,
+        ...this.describeFees(txRequest)
+      };
+    } catch (error) {
+      if (raw && txRequest && isAlreadyKnown(error)) {
+        return {
+          hash: ethers.keccak256(raw),
+          status: 'pending',
+          timestamp: startTime,
+          submittedAt: sentAt,
+          submitLatency: Date.now() - sentAt,
+          type,
+          from: this.wallet.address,
+          nonce,
+          ...this.describeFees(txRequest)
+        };
+      }
+      return {
+        hash: '',
+        status: 'failed',
+        timestamp: startTime,
+        type,
+        from: this.wallet.address,
+        nonce,
+        ...describeError(error)
       };
+    }
+  }
 
-      // ใช้ gasPrice ที่กำหนด หรือดึงจาก network
-      if (gasPrice) {
-        txRequest.gasPrice = ethers.parseUnits(gasPrice, 'gwei');
-      } else {
-        const feeData = await this.provider.getFeeData();
-        txRequest.gasPrice = feeData.gasPrice;
+  /**
+   * สร้างและ sign transaction ล่วงหน้าโดยยังไม่ส่ง (ใช้ nonce ถัดไปของ wallet)
+   */
+  async signCall(
+    call: TransactionCall,
+    gasLimit: number,
+    fees: FeeSettings = {}
+  ): Promise<SignedTransaction> {
+    const nonce = this.nonces.acquire();
+    let raw: string;
+    let txRequest: ethers.TransactionLike<string>;
+    try {
+      txRequest = await this.wallet.populateTransaction(
+        await this.buildRequest(call, gasLimit, fees, nonce)
+      );
+      raw = await this.wallet.signTransaction(txRequest);
+    } catch (error) {
+      this.nonces.release(nonce);
+      throw error;
+    }
+    this.nonces.commit(nonce);
+    
+    return {
+      raw,
+      hash: ethers.keccak256(raw),
+      from: this.wallet.address,
+      nonce,
+      type: fees.type ?? 'legacy',
+      ...this.describeFees(txRequest)
+    };
+  }
+
+  /**
+   * ส่ง transaction ที่ sign แล้วด้วย eth_sendRawTransaction ผ่าน provider ของ sender หรือ endpoint ที่ระบุ (via)
+   */
+  async broadcast(signed: SignedTransaction, via?: ethers.JsonRpcApiProvider): Promise<TransactionResult> {
+    const startTime = Date.now();
+    const { raw, ...details } = signed;
+    
+    try {
+      await (via ?? this.provider).broadcastTransaction(raw);
+      return { ...details, status: 'pending', timestamp: startTime, submitLatency: Date.now() - startTime };
+    } catch (error) {
+      // node มี transaction นี้แล้ว (hash เดียวกับที่ sign ไว้) จึงรอ receipt ตามปกติ
+      if (isAlreadyKnown(error)) {
+        return { ...details, status: 'pending', timestamp: startTime, submitLatency: Date.now() - startTime };
       }
+      return {
+        ...details,
+        status: 'failed',
+        timestamp: startTime,
+        ...describeError(error)
+      };
+    }
+  }
 
-      const tx = await this.wallet.sendTransaction(txRequest);
-      
+  /**
+   * ส่ง transactions ที่ sign แล้วหลายรายการใน JSON-RPC batch request เดียว
+   *
+   * ผลลัพธ์ของแต่ละรายการ map กลับด้วย id ของ request ถ้า HTTP request ล้มเหลวหรือ node ปฏิเสธทั้ง batch
+   * ทุกรายการจะ failed ด้วย error นั้น
+   */
+  async broadcastBatch(batch: SignedTransaction[], via?: ethers.JsonRpcApiProvider): Promise<TransactionResult[]> {
+    const startTime = Date.now();
+    const payload: ethers.JsonRpcPayload[] = batch.map((signed, id) => ({
+      jsonrpc: '2.0',
+      id,
+      method: 'eth_sendRawTransaction',
+      params: [signed.raw]
+    }));
+
+    let responses: (ethers.JsonRpcResult | ethers.JsonRpcError)[];
+    try {
+      responses = await (via ?? this.provider)._send(payload);
+    } catch (error) {
+      const failure = describeError(error);
+      return batch.map(({ raw, ...details }) => ({ ...details, status: 'failed', timestamp: startTime, ...failure }));
+    }
+
+    const submitLatency = Date.now() - startTime;
+    const received = responses.filter(response => response != null);
+    const responsesById = new Map(received.map(response => [response.id, response]));
+    // node ที่ปฏิเสธทั้ง batch (เช่น batch ใหญ่เกินหรือถูก rate limit) ตอบ error เดียวที่ id เป็น null
+    const batchError = received.find((response): response is ethers.JsonRpcError => response.id == null && 'error' in response);
+    return batch.map(({ raw, ...details }, id): TransactionResult => {
+      const response = responsesById.get(id);
+      if (!response) {
+        return {
+          ...details,
+          status: 'failed',
+          timestamp: startTime,
+          ...(batchError
+            ? describeError(batchError.error.message ?? `JSON-RPC error ${batchError.error.code}`)
+            : { error: 'Missing response in JSON-RPC batch', errorCategory: 'unknown' as const })
+        };
+      }
+      if ('error' in response && !isAlreadyKnown(response.error.message)) {
+        return {
+          ...details,
+          status: 'failed',
+          timestamp: startTime,
+          ...describeError(response.error.message ?? `JSON-RPC error ${response.error.code}`)
+        };
+      }
+      return { ...details, status: 'pending', timestamp: startTime, submitLatency };
+    });
+  }
+
+  /**
+   * ส่ง transaction ที่ค้างอยู่ใหม่ด้วย nonce และข้อมูลเดิม แต่ fee สูงขึ้น bumpPercent เปอร์เซ็นต์
+   * (คืนค่า null ถ้า node ไม่รู้จัก transaction หรือ transaction ถูก mine ไปแล้ว)
+   */
+  async replaceTransaction(hash: string, bumpPercent: number): Promise<TransactionResult | null> {
+    const tx = await this.provider.getTransaction(hash);
+    if (!tx || tx.blockNumber !== null) {
+      return null;
+    }
+
+    // ปัดขึ้นเพื่อให้ fee ใหม่สูงกว่าเดิมอย่างน้อยตามเปอร์เซ็นต์ที่กำหนด (node ส่วนใหญ่ต้องการอย่างน้อย 10%)
+    const multiplier = BigInt(Math.round((100 + bumpPercent) * 100));
+    const bump = (fee: bigint) => (fee * multiplier + 9999n) / 10000n;
+    const type = tx.type === 2 ? 'eip1559' : tx.type === 1 ? 'eip2930' : 'legacy';
+    const txRequest: ethers.TransactionRequest = {
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      nonce: tx.nonce,
+      type: tx.type,
+      ...(tx.accessList && { accessList: tx.accessList }),
+      ...(tx.type === 2
+        ? { maxFeePerGas: bump(tx.maxFeePerGas!), maxPriorityFeePerGas: bump(tx.maxPriorityFeePerGas!) }
+        : { gasPrice: bump(tx.gasPrice) })
+    };
+
+    const startTime = Date.now();
+    try {
+      const replacement = await this.wallet.sendTransaction(txRequest);
       return {
-        hash: tx.hash,
+        hash: replacement.hash,
         status: 'pending',
         timestamp: startTime,
-        gasPrice: ethers.formatUnits(txRequest.gasPrice || 0, 'gwei')
+        submitLatency: Date.now() - startTime,
+        type,
+        from: this.wallet.address,
+        nonce: tx.nonce,
+        ...this.describeFees(txRequest)
       };
     } catch (error) {
       return {
         hash: '',
         status: 'failed',
         timestamp: startTime,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        type,
+        from: this.wallet.address,
+        nonce: tx.nonce,
+        ...describeError(error)
       };
     }
   }
 
+  /**
+   * สร้าง transaction request พร้อม fee fields
+   */
+  private async buildRequest(
+    call: TransactionCall,
+    gasLimit: number,
+    fees: FeeSettings,
+    nonce: number
+  ): Promise<ethers.TransactionRequest> {
+    return {
+      to: call.to ?? null,
+      data: call.data ?? '0x',
+      value: ethers.parseEther(call.value ?? '0'),
+      gasLimit,
+      nonce,
+      ...await this.resolveFees(fees)
+    };
+  }
+
+  /**
+   * แปลง fee fields ของ transaction request เป็น Gwei สำหรับบันทึกในผลลัพธ์
+   */
+  private describeFees(txRequest: ethers.TransactionRequest): Pick<TransactionResult, 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'> {
+    const fees: Pick<TransactionResult, 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'> = {};
+    if (txRequest.gasPrice != null) {
+      fees.gasPrice = ethers.formatUnits(txRequest.gasPrice, 'gwei');
+    }
+    if (txRequest.maxFeePerGas != null && txRequest.maxPriorityFeePerGas != null) {
+      fees.maxFeePerGas = ethers.formatUnits(txRequest.maxFeePerGas, 'gwei');
+      fees.maxPriorityFeePerGas = ethers.formatUnits(txRequest.maxPriorityFeePerGas, 'gwei');
+    }
+    return fees;
+  }
+
+  /**
+   * ประมาณค่า gas ของ transaction จาก wallet นี้
+   */
+  async estimateGas(call: TransactionCall): Promise<number> {
+    const gas = await this.wallet.estimateGas({
+      to: call.to ?? null,
+      data: call.data ?? '0x',
+      value: ethers.parseEther(call.value ?? '0')
+    });
+    return Number(gas);
+  }
+
+  /**
+   * กำหนด fee fields ของ transaction ตามประเภท โดยใช้ค่าที่ระบุหรือดึงจาก network
+   */
+  private async resolveFees(fees: FeeSettings): Promise<ethers.TransactionRequest> {
+    const gwei = (amount: string) => ethers.parseUnits(amount, 'gwei');
+
+    if (fees.type === 'eip1559') {
+      if (fees.maxFeePerGas && fees.maxPriorityFeePerGas) {
+        return {
+          type: 2,
+          maxFeePerGas: gwei(fees.maxFeePerGas),
+          maxPriorityFeePerGas: gwei(fees.maxPriorityFeePerGas)
+        };
+      }
+
+      const feeData = await this.feeOracle.getFeeData(fees.refresh);
+      if (feeData.maxFeePerGas == null || feeData.maxPriorityFeePerGas == null) {
+        throw new Error('Network does not provide EIP-1559 fee data; specify both max fee and priority fee');
+      }
+
+      // ถ้าระบุแค่ค่าเดียว ให้คำนวณอีกค่าจาก fee data ของ network
+      if (fees.maxPriorityFeePerGas) {
+        const priorityFee = gwei(fees.maxPriorityFeePerGas);
+        return {
+          type: 2,
+          maxFeePerGas: feeData.maxFeePerGas - feeData.maxPriorityFeePerGas + priorityFee,
+          maxPriorityFeePerGas: priorityFee
+        };
+      }
+      if (fees.maxFeePerGas) {
+        const maxFee = gwei(fees.maxFeePerGas);
+        return {
+          type: 2,
+          maxFeePerGas: maxFee,
+          maxPriorityFeePerGas: feeData.maxPriorityFeePerGas < maxFee ? feeData.maxPriorityFeePerGas : maxFee
+        };
+      }
+      return {
+        type: 2,
+        maxFeePerGas: feeData.maxFeePerGas,
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas
+      };
+    }
+
+    // legacy และ EIP-2930 ใช้ gasPrice ที่กำหนด หรือดึงจาก network
+    const gasPrice = fees.gasPrice
+      ? gwei(fees.gasPrice)
+      : (await this.feeOracle.getFeeData(fees.refresh)).gasPrice;
+
+    return fees.type === 'eip2930'
+      ? { type: 1, gasPrice, accessList: [] }
+      : { type: 0, gasPrice };
+  }
+
   /**
    * ส่ง transactions หลายรายการพร้อมกัน
    */
@@ -106,12 +432,12 @@ export class TransactionSender {
     count: number,
     value: string = '0',
     gasLimit: number = 21000,
-    gasPrice?: string
+    fees: FeeSettings = {}
   ): Promise<TransactionResult[]> {
     const promises: Promise<TransactionResult>[] = [];
     
     for (let i = 0; i < count; i++) {
-      promises.push(this.sendTransaction(to, value, gasLimit, gasPrice));
+      promises.push(this.sendTransaction(to, value, gasLimit, fees));
     }
 
     return Promise.all(promises);
@@ -151,14 +477,15 @@ export class TransactionSender {
         gasPrice: ethers.formatUnits(receipt.gasPrice || 0, 'gwei'),
         confirmationTime: Date.now() - startTime,
         blockNumber: receipt.blockNumber,
-        blockHash: receipt.blockHash
+        blockHash: receipt.blockHash,
+        ...(receipt.contractAddress && { contractAddress: receipt.contractAddress })
       };
     } catch (error) {
       return {
         hash: txHash,
         status: 'failed',
         timestamp: startTime,
-        error: error instanceof Error ? error.message : 'Confirmation timeout',
+        ...(error instanceof Error ? describeError(error) : { error: 'Confirmation timeout', errorCategory: 'timeout' as const }),
         confirmationTime: Date.now() - startTime
       };
     }
@@ -212,7 +539,7 @@ export class TransactionSender {
         hash: txHash,
         status: 'failed',
         timestamp: Date.now(),
-        error: error instanceof Error ? error.message : 'Unknown error'
+        ...describeError(error)
       };
     }
   }
@@ -221,13 +548,55 @@ export class TransactionSender {
    * รีเซ็ต nonce (ใช้เมื่อต้องการเริ่มใหม่)
    */
   async resetNonce(): Promise<void> {
-    this.nonce = await this.provider.getTransactionCount(this.wallet.address, 'pending');
+    await this.nonces.initialize();
+  }
+
+  /**
+   * คืน nonce ของ transaction จาก wallet นี้ที่ส่งไม่สำเร็จ (เช่น raw transaction ที่ sign ไว้ล่วงหน้า)
+   *
+   * ถ้า timeout node อาจรับ transaction ไว้แล้วก่อนหมดเวลา การใช้ nonce ซ้ำจะได้ nonce too low หรือกลายเป็น
+   * replacement จึงเก็บ nonce ไว้ และให้การตรวจ nonce gaps เติมเองถ้า node ไม่เห็น transaction นั้นจริง
+   */
+  releaseNonce(nonce: number, category?: ErrorCategory): void {
+    if (category === 'timeout') {
+      this.nonces.commit(nonce);
+      return;
+    }
+    this.nonces.release(nonce, category);
+  }
+
+  /**
+   * ตรวจหา nonce gaps ของ wallet และส่ง transaction (โอน 0 ETH ให้ตัวเอง) เติมแต่ละ gap
+   * เพื่อให้ transactions ที่ค้างอยู่หลัง gap ถูก mine ได้
+   */
+  async repairNonceGaps(fees: FeeSettings = {}): Promise<TransactionResult[]> {
+    const gaps = await this.nonces.claimGaps();
+    return Promise.all(gaps.map(async nonce => {
+      const result = await this.sendWithNonce({ to: this.wallet.address }, GAP_FILL_GAS_LIMIT, fees, nonce);
+      if (result.status === 'failed') {
+        // ไม่คืน nonce เพื่อไม่ให้เติมซ้ำทุกรอบ ถ้ายังเป็น gap อยู่จริงจะถูกตรวจพบอีกจาก pending count
+        this.nonces.commit(nonce);
+      } else {
+        this.nonces.markRepaired(nonce);
+      }
+      return result;
+    }));
+  }
+
+  /**
+   * สถิติการคืน nonce และ nonce gaps ของ wallet
+   */
+  get nonceStats(): NonceStats {
+    return this.nonces.stats;
   }
 
   /**
    * ปิดการเชื่อมต่อ
    */
   disconnect(): void {
-    this.provider.destroy();
+    this.feeOracle.stop();
+    if (this.ownsProvider) {
+      this.provider.destroy();
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,153 @@
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import { createProvider, isUnsupportedMethod } from './provider';
+import { TxPoolMethod, TxPoolSample, TxPoolStats } from '../types';
+
+// ลองตามลำดับ: txpool_status คืนเฉพาะจำนวน ส่วน txpool_content คืน transactions ทั้งหมดใน pool (หนักกว่ามาก)
+const TXPOOL_METHODS: TxPoolMethod[] = ['txpool_status', 'txpool_content'];
+
+/**
+ * Class สำหรับดึงจำนวน pending/queued transactions ใน txpool ของ node เป็นระยะระหว่างการทดสอบ
+ *
+ * ใช้ txpool_status (geth-style) ถ้า node รองรับ ไม่เช่นนั้นนับจาก txpool_content
+ * ถ้าไม่รองรับทั้งสอง method จะหยุดดึงโดยไม่กระทบการทดสอบ
+ *
+ * Events: 'sample' (TxPoolSample) ทุกครั้งที่ดึงสำเร็จ
+ */
+export class TxPoolMonitor extends EventEmitter {
+  private provider: ethers.JsonRpcApiProvider;
+  private interval: number;
+  private methods: TxPoolMethod[] = [...TXPOOL_METHODS];
+  private samples: TxPoolSample[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private polling: Promise<void> | null = null;
+
+  constructor(rpcUrl: string, interval: number) {
+    super();
+    if (!(interval > 0)) {
+      throw new Error(`Invalid txpool poll interval: ${interval}`);
+    }
+    this.provider = createProvider(rpcUrl);
+    this.interval = interval;
+  }
+
+  /**
+   * Sample ล่าสุด
+   */
+  get latest(): TxPoolSample | undefined {
+    return this.samples[this.samples.length - 1];
+  }
+
+  /**
+   * เริ่มดึงข้อมูล txpool ทุก interval (ms)
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.tick(), this.interval);
+    this.tick();
+  }
+
+  /**
+   * หยุดดึงข้อมูล (รอรอบที่กำลังทำงานอยู่ให้เสร็จ)
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.polling;
+  }
+
+  /**
+   * สถิติ txpool ตลอดการทดสอบ
+   */
+  getStats(): TxPoolStats {
+    return {
+      method: this.methods[0] ?? null,
+      interval: this.interval,
+      maxPending: Math.max(...this.samples.map(sample => sample.pending), 0),
+      maxQueued: Math.max(...this.samples.map(sample => sample.queued), 0),
+      samples: [...this.samples]
+    };
+  }
+
+  /**
+   * ปิดการเชื่อมต่อ
+   */
+  disconnect(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (!this.provider.destroyed) {
+      this.provider.destroy();
+    }
+  }
+
+  /**
+   * เริ่มดึงรอบใหม่ถ้ารอบก่อนหน้าเสร็จแล้ว
+   */
+  private tick(): void {
+    if (!this.polling) {
+      this.polling = this.poll().finally(() => {
+        this.polling = null;
+      });
+    }
+  }
+
+  /**
+   * ดึงข้อมูล txpool หนึ่งครั้งด้วย method แรกที่ node รองรับ
+   */
+  private async poll(): Promise<void> {
+    while (this.methods.length > 0) {
+      const method = this.methods[0]!;
+      let counts: { pending: number; queued: number };
+      try {
+        const raw = await this.provider.send(method, []);
+        counts = method === 'txpool_status' ? parseStatus(raw) : countContent(raw);
+      } catch (error) {
+        if (isUnsupportedMethod(error)) {
+          this.methods.shift();
+          continue;
+        }
+        // error ชั่วคราว (เช่น timeout ตอน node รับ load หนัก) ข้าม sample นี้
+        return;
+      }
+
+      const sample: TxPoolSample = { timestamp: Date.now(), ...counts };
+      this.samples.push(sample);
+      this.emit('sample', sample);
+      return;
+    }
+
+    // node ไม่รองรับทั้งสอง method
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * แปลงผลลัพธ์ txpool_status ({ pending: "0x..", queued: "0x.." })
+ */
+function parseStatus(raw: any): { pending: number; queued: number } {
+  if (raw == null || raw.pending == null || raw.queued == null) {
+    throw new Error('txpool_status is not supported: unexpected response');
+  }
+  return { pending: Number(raw.pending), queued: Number(raw.queued) };
+}
+
+/**
+ * นับ transactions จากผลลัพธ์ txpool_content ({ pending: { address: { nonce: tx } }, queued: ... })
+ */
+function countContent(raw: any): { pending: number; queued: number } {
+  if (raw == null || typeof raw.pending !== 'object' || typeof raw.queued !== 'object') {
+    throw new Error('txpool_content is not supported: unexpected response');
+  }
+  const count = (pool: Record<string, Record<string, unknown>>): number =>
+    Object.values(pool ?? {}).reduce((total, byNonce) => total + Object.keys(byNonce ?? {}).length, 0);
+  return { pending: count(raw.pending), queued: count(raw.queued) };
+}
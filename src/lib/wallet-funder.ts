@@ -0,0 +1,127 @@
+import { ethers } from 'ethers';
+import { TransactionSender } from './transaction-sender';
+import { WalletPool } from './wallet-pool';
+import { FundingTransfer, TransactionResult } from '../types';
+
+const TRANSFER_GAS_LIMIT = 21000;
+
+/**
+ * Class สำหรับเติม ETH ให้ sender wallets จาก master wallet และ sweep ยอดคงเหลือกลับ
+ */
+export class WalletFunder {
+  private master: TransactionSender;
+  private pool: WalletPool;
+
+  constructor(rpcUrl: string, masterPrivateKey: string, walletKeys: string[]) {
+    this.master = new TransactionSender(rpcUrl, masterPrivateKey);
+    this.pool = new WalletPool(rpcUrl, walletKeys);
+  }
+
+  /**
+   * เริ่มต้น master และ wallets ใน pool
+   */
+  async initialize(): Promise<void> {
+    await this.master.initialize();
+    await this.pool.initialize();
+  }
+
+  /**
+   * เติม ETH ให้ทุก wallet จนมี balance เท่ากับ targetBalance (ข้าม wallet ที่มีพอแล้ว)
+   */
+  async fund(targetBalance: string): Promise<FundingTransfer[]> {
+    const target = ethers.parseEther(targetBalance);
+    const transfers: FundingTransfer[] = [];
+    const pending: FundingTransfer[] = [];
+    const sends: Promise<TransactionResult>[] = [];
+
+    for (const sender of this.pool.getSenders()) {
+      const walletInfo = await sender.getWalletInfo();
+      const balance = ethers.parseEther(walletInfo.balance);
+
+      if (balance >= target) {
+        transfers.push({ from: this.master.address, to: sender.address, amount: '0', status: 'skipped' });
+        continue;
+      }
+
+      const amount = ethers.formatEther(target - balance);
+      const transfer: FundingTransfer = { from: this.master.address, to: sender.address, amount, status: 'failed' };
+      transfers.push(transfer);
+      pending.push(transfer);
+      sends.push(this.master.sendTransaction(sender.address, amount, TRANSFER_GAS_LIMIT));
+    }
+
+    await this.settle(pending, await Promise.all(sends));
+    return transfers;
+  }
+
+  /**
+   * ส่ง ETH ที่เหลือในทุก wallet กลับไปยัง master (หักค่า gas แล้ว)
+   */
+  async sweep(): Promise<FundingTransfer[]> {
+    const networkInfo = await this.master.getNetworkInfo();
+    const gasPrice = ethers.parseUnits(networkInfo.gasPrice, 'gwei');
+    const gasCost = gasPrice * BigInt(TRANSFER_GAS_LIMIT);
+
+    const transfers: FundingTransfer[] = [];
+    const pending: FundingTransfer[] = [];
+    const sends: Promise<TransactionResult>[] = [];
+
+    for (const sender of this.pool.getSenders()) {
+      const walletInfo = await sender.getWalletInfo();
+      const balance = ethers.parseEther(walletInfo.balance);
+
+      if (balance <= gasCost) {
+        transfers.push({ from: sender.address, to: this.master.address, amount: '0', status: 'skipped' });
+        continue;
+      }
+
+      const amount = ethers.formatEther(balance - gasCost);
+      const transfer: FundingTransfer = { from: sender.address, to: this.master.address, amount, status: 'failed' };
+      transfers.push(transfer);
+      pending.push(transfer);
+      sends.push(sender.sendTransaction(
+        this.master.address,
+        amount,
+        TRANSFER_GAS_LIMIT,
+        { gasPrice: networkInfo.gasPrice }
+      ));
+    }
+
+    await this.settle(pending, await Promise.all(sends));
+    return transfers;
+  }
+
+  /**
+   * รอ confirmation ของ transfers ที่ส่งไปแล้วและอัพเดทสถานะ
+   */
+  private async settle(pending: FundingTransfer[], results: TransactionResult[]): Promise<void> {
+    const submitted = new Map<string, FundingTransfer>();
+
+    results.forEach((result, index) => {
+      const transfer = pending[index]!;
+      if (result.status === 'failed') {
+        transfer.error = result.error ?? 'Unknown error';
+        return;
+      }
+      transfer.hash = result.hash;
+      submitted.set(result.hash, transfer);
+    });
+
+    const confirmations = await this.master.waitForBatchConfirmations([...submitted.keys()]);
+    for (const confirmation of confirmations) {
+      const transfer = submitted.get(confirmation.hash)!;
+      transfer.status = confirmation.status === 'success' ? 'success' : 'failed';
+      if (confirmation.error) {
+        transfer.error = confirmation.error;
+      }
+    }
+  }
+
+  /**
+   * ปิดการเชื่อมต่อ
+   */
+  disconnect(): void {
+    this.master.disconnect();
+    this.pool.disconnect();
+  }
+}
@@ -0,0 +1,121 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import { TransactionSender } from './transaction-sender';
+import { FeeOracle } from './fee-oracle';
+import { createSendProvider } from './provider';
+
+const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0";
+
+/**
+ * Derive private keys หลายตัวจาก HD mnemonic
+ */
+export function deriveKeysFromMnemonic(mnemonic: string, count: number, startIndex: number = 0): string[] {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Invalid wallet count: ${count}`);
+  }
+
+  const keys: string[] = [];
+  for (let i = startIndex; i < startIndex + count; i++) {
+    const wallet = ethers.HDNodeWallet.fromPhrase(mnemonic, undefined, `${DEFAULT_DERIVATION_PATH}/${i}`);
+    keys.push(wallet.privateKey);
+  }
+  return keys;
+}
+
+/**
+ * โหลด private keys จากไฟล์ (JSON array หรือบรรทัดละ key)
+ */
+export function loadKeysFromFile(filename: string): string[] {
+  const content = fs.readFileSync(filename, 'utf8').trim();
+
+  const keys: unknown = content.startsWith('[')
+    ? JSON.parse(content)
+    : content.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+
+  if (!Array.isArray(keys) || keys.length === 0 || !keys.every(key => typeof key === 'string')) {
+    throw new Error(`Key file ${filename} does not contain any private keys`);
+  }
+  return keys as string[];
+}
+
+/**
+ * Class สำหรับจัดการ sender wallets หลายตัว โดยแต่ละตัวติดตาม nonce ของตัวเอง
+ */
+export class WalletPool {
+  private provider: ethers.JsonRpcApiProvider;
+  private feeOracle: FeeOracle;
+  private senders: TransactionSender[];
+  private cursor: number = 0;
+
+  constructor(rpcUrl: string, privateKeys: string[]) {
+    if (privateKeys.length === 0) {
+      throw new Error('Wallet pool requires at least one private key');
+    }
+
+    // ใช้ provider และ fee oracle ร่วมกันทุก wallet เพื่อไม่ให้เปิด connection หรือดึง fee data ซ้ำ
+    this.provider = createSendProvider(rpcUrl);
+    this.feeOracle = new FeeOracle(this.provider);
+    this.senders = privateKeys.map(key => new TransactionSender(rpcUrl, key, this.provider, this.feeOracle));
+  }
+
+  /**
+   * สร้าง pool จาก HD mnemonic
+   */
+  static fromMnemonic(rpcUrl: string, mnemonic: string, count: number, startIndex: number = 0): WalletPool {
+    return new WalletPool(rpcUrl, deriveKeysFromMnemonic(mnemonic, count, startIndex));
+  }
+
+  /**
+   * สร้าง pool จากไฟล์ private keys
+   */
+  static fromKeyFile(rpcUrl: string, filename: string): WalletPool {
+    return new WalletPool(rpcUrl, loadKeysFromFile(filename));
+  }
+
+  /**
+   * เริ่มต้นทุก sender (ดึง nonce ปัจจุบันของแต่ละ wallet)
+   */
+  async initialize(): Promise<void> {
+    await Promise.all(this.senders.map(sender => sender.initialize()));
+  }
+
+  /**
+   * เลือก sender ถัดไปแบบ round-robin
+   */
+  next(): TransactionSender {
+    const sender = this.senders[this.cursor % this.senders.length]!;
+    this.cursor++;
+    return sender;
+  }
+
+  /**
+   * Sender ตัวแรก ใช้สำหรับงานที่ไม่ผูกกับ wallet เช่นรอ confirmation
+   */
+  get primary(): TransactionSender {
+    return this.senders[0]!;
+  }
+
+  get size(): number {
+    return this.senders.length;
+  }
+
+  getSenders(): TransactionSender[] {
+    return [...this.senders];
+  }
+
+  /**
+   * หา sender ตาม address ของ wallet
+   */
+  getSender(address: string): TransactionSender | undefined {
+    return this.senders.find(sender => sender.address.toLowerCase() === address.toLowerCase());
+  }
+
+  /**
+   * ปิดการเชื่อมต่อ
+   */
+  disconnect(): void {
+    this.senders.forEach(sender => sender.disconnect());
+    this.feeOracle.stop();
+    this.provider.destroy();
+  }
+}
@@ -0,0 +1,340 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import { WalletPool } from './wallet-pool';
+import { TransactionSender } from './transaction-sender';
+import { TEST_TOKEN_ABI, TEST_TOKEN_BYTECODE } from '../contracts/test-token';
+import { FeeSettings, TransactionCall, WorkloadConfig, WorkloadType } from '../types';
+
+// เผื่อ gas เพิ่มจากค่าที่ประมาณได้ เพราะ state ของ contract เปลี่ยนระหว่างการทดสอบ
+const GAS_LIMIT_BUFFER = 1.2;
+
+// จำนวน token ที่ mint ให้แต่ละ sender wallet ก่อนเริ่ม erc20-transfer
+const TOKEN_FUNDING_AMOUNT = ethers.parseEther('1000000');
+
+export interface WorkloadContext {
+  targetAddress: string;
+  value: string; // ใน ETH
+  gasLimit?: number; // ถ้าระบุจะไม่ประมาณ gas
+}
+
+/**
+ * ประเภทของ transactions ที่ LoadTester ส่ง
+ */
+export interface Workload {
+  readonly type: WorkloadType;
+  readonly gasLimit: number;
+
+  /**
+   * เตรียม workload ก่อนเริ่มทดสอบ (deploy contracts, แจก tokens, ประมาณ gas)
+   */
+  prepare(pool: WalletPool, fees: FeeSettings): Promise<void>;
+
+  /**
+   * สร้าง transaction ลำดับที่ index สำหรับ sender
+   */
+  nextCall(sender: string, index: number): TransactionCall;
+}
+
+/**
+ * สร้าง workload ตาม config
+ */
+export function createWorkload(config: WorkloadConfig | undefined, context: WorkloadContext): Workload {
+  switch (config?.type ?? 'eth-transfer') {
+    case 'eth-transfer':
+      return new EthTransferWorkload(context);
+    case 'erc20-transfer':
+      return new Erc20TransferWorkload(context);
+    case 'contract-call':
+      return new ContractCallWorkload(config!, context);
+    case 'deploy':
+      return new DeployWorkload(config!, context);
+    default:
+      throw new Error(`Unknown workload type: ${config?.type}`);
+  }
+}
+
+/**
+ * Workload ที่อยู่ใน mix พร้อมชื่อและ weight
+ */
+export interface WeightedWorkload {
+  name: string;
+  weight: number;
+  workload: Workload;
+}
+
+/**
+ * Class สำหรับผสมหลาย workloads ตาม weight
+ *
+ * ใช้ smooth weighted round-robin เพื่อให้สัดส่วนตรงตาม weight และกระจายสม่ำเสมอตลอดการทดสอบ
+ */
+export class WorkloadMix {
+  private entries: WeightedWorkload[];
+  private currentWeights: number[];
+  private totalWeight: number;
+
+  constructor(configs: WorkloadConfig[] | undefined, context: WorkloadContext) {
+    const definitions = configs && configs.length > 0 ? configs : [{ type: 'eth-transfer' as const }];
+    const usedNames = new Set<string>();
+
+    this.entries = definitions.map((config, index) => {
+      const weight = config.weight ?? 1;
+      if (typeof weight !== 'number' || !(weight > 0)) {
+        throw new Error(`Invalid weight for workload ${config.name ?? config.type}: ${weight}`);
+      }
+
+      // ชื่อต้องไม่ซ้ำกันเพื่อแยก metrics
+      let name = config.name ?? config.type;
+      if (usedNames.has(name)) {
+        name = `${name}-${index + 1}`;
+      }
+      usedNames.add(name);
+
+      return { name, weight, workload: createWorkload(config, context) };
+    });
+
+    this.currentWeights = this.entries.map(() => 0);
+    this.totalWeight = this.entries.reduce((sum, entry) => sum + entry.weight, 0);
+  }
+
+  /**
+   * เตรียมทุก workload ตามลำดับ
+   */
+  async prepare(pool: WalletPool, fees: FeeSettings): Promise<void> {
+    for (const entry of this.entries) {
+      await entry.workload.prepare(pool, fees);
+    }
+  }
+
+  /**
+   * เลือก workload ถัดไปตาม weight
+   */
+  next(): WeightedWorkload {
+    let selected = 0;
+    for (let i = 0; i < this.entries.length; i++) {
+      this.currentWeights[i]! += this.entries[i]!.weight;
+      if (this.currentWeights[i]! > this.currentWeights[selected]!) {
+        selected = i;
+      }
+    }
+    this.currentWeights[selected]! -= this.totalWeight;
+    return this.entries[selected]!;
+  }
+
+  getEntries(): WeightedWorkload[] {
+    return [...this.entries];
+  }
+}
+
+/**
+ * แทนค่า placeholders ใน arguments template
+ */
+export function resolveArgs(template: unknown, values: Record<string, string>): unknown {
+  if (Array.isArray(template)) {
+    return template.map(item => resolveArgs(item, values));
+  }
+  if (typeof template !== 'string') {
+    return template;
+  }
+  return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => {
+    if (key === 'random') {
+      return String(Math.floor(Math.random() * 2 ** 32));
+    }
+    return values[key] ?? match;
+  });
+}
+
+/**
+ * Base class สำหรับ workload ที่ประมาณ gas จาก transaction ตัวอย่าง
+ */
+abstract class BaseWorkload implements Workload {
+  abstract readonly type: WorkloadType;
+  protected context: WorkloadContext;
+  private estimatedGasLimit: number = 0;
+
+  constructor(context: WorkloadContext) {
+    this.context = context;
+  }
+
+  get gasLimit(): number {
+    return this.context.gasLimit ?? this.estimatedGasLimit;
+  }
+
+  abstract prepare(pool: WalletPool, fees: FeeSettings): Promise<void>;
+
+  abstract nextCall(sender: string, index: number): TransactionCall;
+
+  /**
+   * ประมาณ gas จาก transaction ตัวอย่างของ sender (ข้ามถ้ากำหนด gas limit ไว้แล้ว)
+   */
+  protected async estimateGasLimit(sender: TransactionSender, buffer: number = GAS_LIMIT_BUFFER): Promise<void> {
+    if (this.context.gasLimit !== undefined) {
+      return;
+    }
+    try {
+      const gas = await sender.estimateGas(this.nextCall(sender.address, 0));
+      this.estimatedGasLimit = Math.ceil(gas * buffer);
+    } catch (error) {
+      throw new Error(`Failed to estimate gas for ${this.type} workload: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+/**
+ * โอน ETH ไปยัง target address
+ */
+class EthTransferWorkload extends BaseWorkload {
+  readonly type = 'eth-transfer';
+
+  async prepare(pool: WalletPool): Promise<void> {
+    // การโอน ETH ไปยัง EOA ใช้ gas คงที่ จึงไม่ต้องเผื่อ
+    await this.estimateGasLimit(pool.primary, 1);
+  }
+
+  nextCall(): TransactionCall {
+    return { to: this.context.targetAddress, value: this.context.value };
+  }
+}
+
+/**
+ * Deploy ERC-20 สำหรับทดสอบ แจก tokens ให้ทุก sender แล้วโอน token ไปยัง target address
+ */
+class Erc20TransferWorkload extends BaseWorkload {
+  readonly type = 'erc20-transfer';
+  private tokenInterface = new ethers.Interface(TEST_TOKEN_ABI);
+  private tokenAddress: string = '';
+
+  async prepare(pool: WalletPool, fees: FeeSettings): Promise<void> {
+    const deployer = pool.primary;
+    const deployCall: TransactionCall = {
+      data: ethers.concat([
+        TEST_TOKEN_BYTECODE,
+        this.tokenInterface.encodeDeploy(['Load Test Token', 'LTT', 0])
+      ])
+    };
+
+    const deployGas = Math.ceil(await deployer.estimateGas(deployCall) * GAS_LIMIT_BUFFER);
+    const deployment = await deployer.sendCall(deployCall, deployGas, fees);
+    const deployReceipt = deployment.status === 'pending'
+      ? await deployer.waitForConfirmation(deployment.hash)
+      : deployment;
+    if (deployReceipt.status !== 'success' || !deployReceipt.contractAddress) {
+      throw new Error(`Failed to deploy test token: ${deployReceipt.error ?? 'deployment reverted'}`);
+    }
+    this.tokenAddress = deployReceipt.contractAddress;
+
+    // mint tokens ให้ทุก sender wallet
+    const mintCalls = pool.getSenders().map(sender => ({
+      to: this.tokenAddress,
+      data: this.tokenInterface.encodeFunctionData('mint', [sender.address, TOKEN_FUNDING_AMOUNT])
+    }));
+    const mintGas = Math.ceil(await deployer.estimateGas(mintCalls[0]!) * GAS_LIMIT_BUFFER);
+    const mints = await Promise.all(mintCalls.map(call => deployer.sendCall(call, mintGas, fees)));
+    const failedMint = mints.find(mint => mint.status === 'failed');
+    if (failedMint) {
+      throw new Error(`Failed to mint test tokens: ${failedMint.error}`);
+    }
+
+    const mintReceipts = await deployer.waitForBatchConfirmations(mints.map(mint => mint.hash));
+    const revertedMint = mintReceipts.find(receipt => receipt.status !== 'success');
+    if (revertedMint) {
+      throw new Error(`Failed to mint test tokens: ${revertedMint.error ?? 'mint reverted'}`);
+    }
+
+    await this.estimateGasLimit(deployer);
+  }
+
+  nextCall(): TransactionCall {
+    return {
+      to: this.tokenAddress,
+      data: this.tokenInterface.encodeFunctionData('transfer', [this.context.targetAddress, 1])
+    };
+  }
+}
+
+/**
+ * เรียก function ของ contract ใดๆ ตาม ABI fragment และ arguments template
+ */
+class ContractCallWorkload extends BaseWorkload {
+  readonly type = 'contract-call';
+  private contractAddress: string;
+  private contractInterface: ethers.Interface;
+  private functionName: string;
+  private argsTemplate: unknown[];
+
+  constructor(config: WorkloadConfig, context: WorkloadContext) {
+    super(context);
+
+    if (!config.contractAddress || !ethers.isAddress(config.contractAddress)) {
+      throw new Error(`contract-call workload requires a valid contract address (got ${config.contractAddress})`);
+    }
+    if (!config.abi) {
+      throw new Error('contract-call workload requires an ABI fragment, e.g. "function store(uint256 value)"');
+    }
+
+    this.contractAddress = config.contractAddress;
+    this.contractInterface = new ethers.Interface([config.abi]);
+    const fragment = this.contractInterface.fragments.find(
+      (f): f is ethers.FunctionFragment => f.type === 'function'
+    );
+    if (!fragment) {
+      throw new Error(`ABI fragment does not describe a function: ${config.abi}`);
+    }
+    this.functionName = fragment.name;
+    this.argsTemplate = config.args ?? [];
+  }
+
+  async prepare(pool: WalletPool): Promise<void> {
+    await this.estimateGasLimit(pool.primary);
+  }
+
+  nextCall(sender: string, index: number): TransactionCall {
+    const args = resolveArgs(this.argsTemplate, {
+      index: String(index),
+      sender,
+      target: this.context.targetAddress,
+      timestamp: String(Date.now())
+    }) as unknown[];
+
+    return {
+      to: this.contractAddress,
+      data: this.contractInterface.encodeFunctionData(this.functionName, args),
+      value: this.context.value
+    };
+  }
+}
+
+/**
+ * Deploy contract ซ้ำๆ (bytecode ที่กำหนดหรือ ERC-20 สำหรับทดสอบ)
+ */
+class DeployWorkload extends BaseWorkload {
+  readonly type = 'deploy';
+  private deployData: string;
+
+  constructor(config: WorkloadConfig, context: WorkloadContext) {
+    super(context);
+
+    if (config.bytecode) {
+      const bytecode = fs.existsSync(config.bytecode)
+        ? fs.readFileSync(config.bytecode, 'utf8').trim()
+        : config.bytecode;
+      const hex = bytecode.startsWith('0x') ? bytecode : `0x${bytecode}`;
+      if (!ethers.isHexString(hex) || hex.length <= 2) {
+        throw new Error('Deploy workload bytecode must be a hex string or a file containing one');
+      }
+      this.deployData = hex;
+    } else {
+      this.deployData = ethers.concat([
+        TEST_TOKEN_BYTECODE,
+        new ethers.Interface(TEST_TOKEN_ABI).encodeDeploy(['Load Test Token', 'LTT', 0])
+      ]);
+    }
+  }
+
+  async prepare(pool: WalletPool): Promise<void> {
+    await this.estimateGasLimit(pool.primary);
+  }
+
+  nextCall(): TransactionCall {
+    return { data: this.deployData };
+  }
+}
@@ -1,27 +1,122 @@
 // Types สำหรับ Ethereum Load Testing Project
 
 export interface LoadTestConfig {
-  rpcUrl: string;
-  privateKey: string;
+  rpcUrl: string; // HTTP(S) หรือ WebSocket (ws://, wss://) ใช้อ่านข้อมูล ติดตาม receipts และ scan blocks
+  rpcEndpoints?: RpcEndpoint[]; // endpoints สำหรับส่ง transactions (default: rpcUrl)
+  endpointStrategy?: EndpointStrategy; // วิธีกระจายการส่งไปยัง endpoints
+  wsUrl?: string; // WebSocket URL สำหรับ newHeads/pending subscriptions (ถ้า rpcUrl เป็น HTTP)
+  trackPending?: boolean; // วัดเวลาที่ transactions ปรากฏใน mempool ผ่าน newPendingTransactions
+  txpoolInterval?: number; // ดึงจำนวน transactions ใน txpool ของ node ทุกกี่วินาที (ไม่ระบุ = ไม่ดึง)
+  privateKey?: string;
+  mnemonic?: string; // HD mnemonic สำหรับ derive sender wallets หลายตัว
+  walletCount?: number; // จำนวน wallets ที่ derive จาก mnemonic
+  keyFile?: string; // ไฟล์ private keys (JSON array หรือบรรทัดละ key)
   targetAddress: string;
-  transactionCount: number;
+  transactionCount?: number; // ถ้าไม่ระบุจะส่งจนครบ duration
   concurrency: number;
+  rate?: number; // อัตราการส่งคงที่ (tx/s) สำหรับ open-loop mode
+  profile?: LoadProfile; // load profile แบบหลาย stage (ramp/step/spike)
   gasPrice?: string;
-  gasLimit?: number;
+  txType?: TransactionType; // ประเภท transaction (legacy, EIP-2930, EIP-1559)
+  maxFeePerGas?: string; // ใน Gwei (EIP-1559)
+  maxPriorityFeePerGas?: string; // ใน Gwei (EIP-1559)
+  feeRefresh?: FeeRefresh; // ดึง fee data ทุก transaction หรือครั้งเดียวต่อ block
+  presign?: boolean; // sign transactions ทั้งหมดล่วงหน้าแล้วส่งด้วย eth_sendRawTransaction
+  rpcBatchSize?: number; // จำนวน raw transactions สูงสุดต่อ JSON-RPC batch request (ต้องใช้กับ presign)
+  gasLimit?: number; // ถ้าไม่ระบุจะประมาณจาก workload
   value?: string;
-  duration?: number; // ระยะเวลาในการทดสอบ (วินาที)
+  workloads?: WorkloadConfig[]; // ประเภทของ transactions พร้อม weight (default: eth-transfer)
+  duration?: number; // ระยะเวลาในการส่ง load (วินาที)
+  drainTimeout?: number; // เวลารอ confirmation หลังหยุดส่ง (วินาที)
+  replaceAfter?: number; // ส่ง transaction ที่ค้างนานกว่านี้ใหม่ด้วย fee ที่สูงขึ้น (วินาที)
+  feeBump?: number; // เปอร์เซ็นต์ที่เพิ่ม fee ต่อการ replace หนึ่งครั้ง
+  maxReplacements?: number; // จำนวนครั้งสูงสุดที่ replace transaction เดียว
+}
+
+export interface RpcEndpoint {
+  url: string;
+  weight?: number; // สัดส่วนสำหรับ weighted/sticky (default: 1)
+}
+
+export type EndpointStrategy = 'round-robin' | 'weighted' | 'sticky';
+
+export type TransactionType = 'legacy' | 'eip2930' | 'eip1559';
+
+export type FeeRefresh = 'per-tx' | 'per-block';
+
+export interface FeeSettings {
+  type?: TransactionType;
+  gasPrice?: string; // ใน Gwei (legacy, EIP-2930)
+  maxFeePerGas?: string; // ใน Gwei (EIP-1559)
+  maxPriorityFeePerGas?: string; // ใน Gwei (EIP-1559)
+  refresh?: FeeRefresh;
+}
+
+export interface TransactionCall {
+  to?: string; // ไม่ระบุเมื่อ deploy contract
+  data?: string;
+  value?: string; // ใน ETH
 }
 
+export type WorkloadType = 'eth-transfer' | 'erc20-transfer' | 'contract-call' | 'deploy';
+
+export interface WorkloadConfig {
+  type: WorkloadType;
+  name?: string; // ชื่อที่ใช้ใน metrics (default: type)
+  weight?: number; // สัดส่วนเมื่อผสมหลาย workloads (default: 1)
+  contractAddress?: string; // contract ที่จะเรียก (contract-call)
+  abi?: string; // ABI fragment เช่น "function store(uint256 value)" (contract-call)
+  args?: unknown[]; // arguments template รองรับ {{index}}, {{sender}}, {{target}}, {{random}}, {{timestamp}}
+  bytecode?: string; // bytecode hex หรือ path ของไฟล์ (deploy)
+}
+
+export interface SignedTransaction {
+  raw: string; // raw transaction ที่ sign แล้ว (hex)
+  hash: string;
+  from: string;
+  nonce: number;
+  type: TransactionType;
+  gasPrice?: string; // ใน Gwei
+  maxFeePerGas?: string; // ใน Gwei
+  maxPriorityFeePerGas?: string; // ใน Gwei
+  workload?: string;
+}
+
+export type ErrorCategory =
+  | 'nonce-too-low'
+  | 'replacement-underpriced'
+  | 'underpriced' // fee ต่ำกว่าขั้นต่ำของ mempool (ไม่เกี่ยวกับ replacement จึงไม่ได้ใช้ nonce)
+  | 'insufficient-funds'
+  | 'gas-too-low'
+  | 'rate-limited' // HTTP 429 หรือ provider จำกัดจำนวน requests
+  | 'timeout'
+  | 'reverted'
+  | 'unknown';
+
 export interface TransactionResult {
   hash: string;
   status: 'pending' | 'success' | 'failed';
   timestamp: number;
   gasUsed?: number;
   gasPrice?: string;
+  type?: TransactionType;
+  maxFeePerGas?: string; // ใน Gwei
+  maxPriorityFeePerGas?: string; // ใน Gwei
   error?: string;
+  errorCategory?: ErrorCategory; // ประเภทของ error (ใช้ตัดสินใจ retry และสรุปใน error breakdown)
   confirmationTime?: number; // เวลาที่ใช้ในการ confirm (ms)
+  submitLatency?: number; // เวลา round trip ของ RPC ที่ส่ง transaction (ms)
+  submittedAt?: number; // เวลาที่เริ่มส่ง raw transaction ให้ node หลังดึง fee และ sign แล้ว (ไม่มี = timestamp)
+  inclusionLatency?: number; // เวลาตั้งแต่ส่งจนได้ receipt (ms)
   blockNumber?: number; // Block number ที่ transaction ถูก mine
   blockHash?: string; // Block hash ที่ transaction ถูก mine
+  from?: string; // Address ของ wallet ที่ส่ง transaction
+  contractAddress?: string; // Address ของ contract ที่ถูก deploy
+  nonce?: number; // Nonce ที่ใช้ส่ง transaction
+  stage?: string; // Stage ของ load profile ตอนที่ส่ง
+  workload?: string; // ชื่อ workload ของ transaction
+  endpoint?: string; // URL ของ RPC endpoint ที่ใช้ส่ง
+  replacementChain?: string[]; // hashes ที่ส่งด้วย nonce นี้ตามลำดับ (transaction แรกและ replacements) ถ้าเคยถูกแทนที่
 }
 
 export interface LoadTestMetrics {
@@ -39,6 +134,186 @@ export interface LoadTestMetrics {
   totalCost: string; // ใน ETH
   blockNumbers: number[]; // รายการ block numbers ที่ transactions ถูก mine
   uniqueBlocks: number; // จำนวน unique blocks ที่ใช้
+  walletStats: WalletStats[]; // สถิติแยกตาม sender wallet
+  targetTPS?: number; // อัตราที่กำหนดใน open-loop mode
+  offeredTPS: number; // อัตราที่ส่งได้จริงในช่วงส่ง transactions
+  averageScheduleLag: number; // เวลาเฉลี่ยที่ generator ช้ากว่ากำหนด (ms)
+  maxScheduleLag: number; // เวลาที่ generator ช้ากว่ากำหนดสูงสุด (ms)
+  stageStats: StageStats[]; // สถิติแยกตาม stage ของ load profile
+  workloadStats: WorkloadStats[]; // สถิติแยกตามประเภท transaction
+  signingDuration?: number; // เวลาที่ใช้ sign transactions ล่วงหน้า (ms)
+  rpcBatches?: number; // จำนวน JSON-RPC batch requests ที่ส่ง
+  chainStats?: ChainStats; // สถิติที่วัดจาก blocks บน chain ในช่วงการทดสอบ
+  submitLatency: LatencyStats; // latency ของการส่ง transaction (RPC round trip)
+  inclusionLatency: LatencyStats; // latency ตั้งแต่ส่งจนได้ receipt
+  mempoolLatency?: LatencyStats; // latency ตั้งแต่ส่งจนเห็นใน mempool ของ node (เฉพาะ trackPending)
+  mempoolUnseen?: number; // จำนวน transactions ที่ไม่เคยเห็นใน mempool notifications
+  nonceStats: NonceStats; // สถิติ nonce รวมทุก wallet
+  replacementsSent?: number; // จำนวน replacement transactions ที่ส่ง (เฉพาะ replaceAfter)
+  replacedTransactions?: number; // transactions ที่ถูก mine ด้วย replacement แทน transaction แรก
+  retries: number; // จำนวนครั้งที่ส่งซ้ำหลัง error ที่ retry ได้
+  errorStats: ErrorStats[]; // จำนวน errors แยกตามประเภท
+  endpointStats: EndpointStats[]; // สถิติการส่งแยกตาม RPC endpoint
+  txpoolStats?: TxPoolStats; // จำนวน transactions ใน txpool ของ node ตลอดการทดสอบ (เฉพาะ txpoolInterval)
+  tpsSnapshots: TPSSnapshot[]; // TPS ตลอดการทดสอบ (สำหรับกราฟในรายงาน)
+}
+
+export type MetricDirection = 'higher' | 'lower'; // ทิศทางที่ถือว่าดีขึ้น
+
+export type MetricUnit = 'tx/s' | 'ms' | '%' | 'count';
+
+export interface MetricComparison {
+  metric: string; // ชื่อ metric เช่น averageTPS, inclusionLatency.p95
+  label: string;
+  unit: MetricUnit;
+  direction?: MetricDirection; // ไม่มี = แสดงเพื่อข้อมูลเท่านั้น ไม่ตรวจ regression
+  baseline: number;
+  candidate: number | null; // null เมื่อ candidate ไม่มีค่าของ metric ที่ตรวจ regression (นับเป็น regression)
+  delta: number | null; // candidate - baseline
+  percent: number | null; // null เมื่อ baseline เป็น 0 หรือ candidate ไม่มีค่า
+  tolerance?: number; // % ที่ยอมให้แย่ลงได้ (metrics หน่วย % เช่น successRate เป็น percentage points)
+  regression: boolean;
+}
+
+export interface CompareTolerances {
+  default: number; // % ที่ยอมให้แย่ลงได้สำหรับทุก metric
+  metrics: Record<string, number>; // % เฉพาะ metric
+}
+
+export interface ComparisonResult {
+  metrics: MetricComparison[];
+  regressions: number;
+  configDifferences: string[]; // settings ที่ต่างกันระหว่างสองการทดสอบ
+}
+
+export type AssertionOperator = '>=' | '<=' | '>' | '<' | '==';
+
+export interface Assertion {
+  expression: string; // ข้อความที่ผู้ใช้กำหนด เช่น "p95Inclusion<3s"
+  metric: string;
+  operator: AssertionOperator;
+  threshold: number; // ในหน่วยของ metric (latency เป็น ms)
+  unit: MetricUnit;
+}
+
+export interface AssertionResult extends Assertion {
+  actual: number | null; // null เมื่อไม่มีค่าของ metric ในการทดสอบนี้
+  passed: boolean;
+}
+
+export interface TestResults {
+  timestamp: string;
+  config: LoadTestConfig; // private key และ mnemonic ถูกแทนด้วย [REDACTED]
+  metrics: LoadTestMetrics;
+  assertions?: AssertionResult[];
+  summary: {
+    successRate: string;
+    avgTPS: string;
+    peakTPS: string;
+  };
+}
+
+export interface EndpointCounts {
+  url: string;
+  weight: number;
+  sent: number; // จำนวนครั้งที่ส่ง (รวม retries)
+  accepted: number; // node รับ transaction เข้า mempool
+  failed: number;
+}
+
+export interface EndpointStats extends EndpointCounts {
+  errorRate: number; // failed / sent
+  submitLatency: LatencyStats;
+}
+
+export type LatencyKind = 'submit' | 'inclusion';
+
+export interface LiveStats {
+  running: boolean;
+  totalTransactions: number;
+  successfulTransactions: number;
+  failedTransactions: number;
+  pendingTransactions: number;
+  currentTPS: number; // confirmed TPS ระหว่าง TPS snapshots สองครั้งล่าสุด
+  averageTPS: number;
+  retries: number;
+  nonceStats: NonceStats;
+  errorStats: ErrorStats[];
+  endpoints: EndpointCounts[];
+  txpool?: TxPoolSample; // sample ล่าสุด (เฉพาะ txpoolInterval)
+}
+
+export interface ErrorStats {
+  category: ErrorCategory;
+  retryable: boolean;
+  send: number; // errors ตอนส่ง (หลัง retry ครบแล้ว)
+  receipt: number; // errors ตอนรอ receipt (reverted, หมดเวลา)
+  example: string; // ข้อความ error ตัวอย่าง
+}
+
+export interface NonceStats {
+  reclaimed: number; // nonces ของการส่งที่ล้มเหลวที่ถูกนำกลับมาใช้ซ้ำ
+  gapsDetected: number; // nonce gaps ที่ตรวจพบ
+  gapsRepaired: number; // nonce gaps ที่ส่ง transaction เติมสำเร็จ
+}
+
+export interface LatencyStats {
+  count: number;
+  min: number; // ms
+  average: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+  histogram: HistogramBucket[];
+}
+
+export interface HistogramBucket {
+  upperBound: number | null; // ms (null = มากกว่า bucket สุดท้าย)
+  count: number;
+}
+
+export interface BlockStats {
+  number: number;
+  timestamp: number; // unix timestamp (วินาที)
+  interval: number; // วินาทีนับจาก block ก่อนหน้า
+  transactionCount: number;
+  ownTransactions: number; // transactions ที่ส่งจากการทดสอบนี้
+  foreignTransactions: number; // transactions อื่นที่อยู่ใน block เดียวกัน
+  gasUsed: number;
+  gasLimit: number;
+  gasUtilization: number; // gasUsed / gasLimit
+}
+
+export interface BlockUpdate {
+  number: number;
+  transactionCount: number;
+  confirmed: number; // transactions ของการทดสอบที่ได้ receipt ใน block นี้
+  timestamp?: number; // unix timestamp (วินาที) ถ้าทราบ
+}
+
+export interface ChainStats {
+  startBlock: number;
+  endBlock: number;
+  blockCount: number;
+  totalTransactions: number;
+  ownTransactions: number;
+  foreignTransactions: number;
+  averageTransactionsPerBlock: number;
+  averageGasUtilization: number;
+  averageBlockInterval: number; // วินาที
+  timeSpan: number; // วินาทีตาม block timestamps
+  tps: number; // transactions ทั้งหมดต่อวินาทีตาม block timestamps
+  ownTPS: number; // transactions ของการทดสอบต่อวินาทีตาม block timestamps
+  blocks: BlockStats[];
+}
+
+export interface WalletStats {
+  address: string;
+  sent: number;
+  successful: number;
+  failed: number;
 }
 
 export interface TPSSnapshot {
@@ -46,8 +321,96 @@ export interface TPSSnapshot {
   tps: number;
   successCount: number;
   failureCount: number;
+  stage?: string; // ชื่อ stage ของ load profile ณ เวลานั้น
+  txpoolPending?: number; // pending transactions ใน txpool ของ node จาก sample ล่าสุด (เฉพาะ txpoolInterval)
+  txpoolQueued?: number; // queued transactions (nonce ไม่ต่อเนื่อง) จาก sample ล่าสุด
+}
+
+export type TxPoolMethod = 'txpool_status' | 'txpool_content';
+
+export interface TxPoolSample {
+  timestamp: number;
+  pending: number; // transactions ที่พร้อมถูก mine
+  queued: number; // transactions ที่รอ nonce ก่อนหน้า
 }
 
+export interface TxPoolStats {
+  method: TxPoolMethod | null; // method ที่ node รองรับ (null = ไม่รองรับทั้งสอง)
+  interval: number; // ms ระหว่าง samples
+  maxPending: number;
+  maxQueued: number;
+  samples: TxPoolSample[];
+}
+
+export interface LoadStage {
+  name: string;
+  duration: number; // วินาที
+  startRate: number; // tx/s ตอนเริ่ม stage
+  endRate: number; // tx/s ตอนจบ stage (ปรับแบบ linear)
+}
+
+export interface LoadProfile {
+  stages: LoadStage[];
+}
+
+export interface StageStats {
+  name: string;
+  startRate: number;
+  endRate: number;
+  duration: number; // วินาที
+  sent: number;
+  successful: number;
+  failed: number;
+  offeredTPS: number;
+  achievedTPS: number;
+}
+
+export interface WorkloadStats {
+  name: string;
+  type: WorkloadType;
+  weight: number;
+  sent: number;
+  successful: number;
+  failed: number;
+  gasUsed: number;
+  averageLatency: number; // เวลาเฉลี่ยจากส่งจนได้ receipt (ms)
+}
+
+export type JournalFormat = 'jsonl' | 'csv';
+
+export interface JournalEntry {
+  hash: string; // hash ที่ถูก mine (หรือ hash ล่าสุดถ้าไม่ถูก mine)
+  wallet?: string;
+  nonce?: number;
+  type?: TransactionType;
+  workload?: string;
+  stage?: string;
+  endpoint?: string;
+  gasPrice?: string; // ใน Gwei (legacy, EIP-2930)
+  maxFeePerGas?: string; // ใน Gwei (EIP-1559)
+  maxPriorityFeePerGas?: string; // ใน Gwei (EIP-1559)
+  effectiveGasPrice?: string; // ใน Gwei จาก receipt
+  gasUsed?: number;
+  submittedAt: number; // เวลาที่เริ่มส่ง (ms)
+  ackedAt?: number; // เวลาที่ RPC ตอบรับการส่ง (ms)
+  blockNumber?: number;
+  receiptAt?: number; // เวลาที่ได้ receipt หรือหมดเวลารอ (ms)
+  status: TransactionResult['status'];
+  errorCategory?: ErrorCategory;
+  error?: string;
+  replacementChain?: string[];
+}
+
+// settings ทั้งหมดที่กำหนดได้จาก flags, config file หรือ environment variables
+export type Settings = Partial<LoadTestConfig> & LoadTestOptions;
+
+export interface SettingValue {
+  value: unknown; // ค่าก่อนตรวจสอบ
+  source: string; // ที่มาของค่าสำหรับข้อความ error เช่น --count, TRANSACTION_COUNT
+}
+
+export type SettingsLayer = { [K in keyof Settings]?: SettingValue };
+
 export interface WalletInfo {
   address: string;
   balance: string;
@@ -67,7 +430,21 @@ export interface LoadTestOptions {
   verbose?: boolean;
   logLevel?: LogLevel;
   outputFile?: string;
+  presignFile?: string; // ไฟล์ JSONL สำหรับบันทึก transactions ที่ sign ล่วงหน้า
+  journalFile?: string; // ไฟล์บันทึก lifecycle ของแต่ละ transaction (.csv = CSV, อื่นๆ = JSONL)
+  reportFile?: string; // ไฟล์รายงาน HTML
+  assertions?: Assertion[]; // เงื่อนไขที่ metrics สุดท้ายต้องผ่าน (ไม่ผ่าน = exit code 1)
+  metricsPort?: number; // port ของ Prometheus /metrics endpoint ระหว่างการทดสอบ
+  metricsHost?: string; // interface ที่ /metrics endpoint รับ connections (ค่าเริ่มต้น 127.0.0.1)
   realTimeStats?: boolean;
   maxRetries?: number;
   retryDelay?: number;
-}
\ No newline at end of file
+}
+export interface FundingTransfer {
+  from: string;
+  to: string;
+  amount: string; // ใน ETH
+  status: 'success' | 'failed' | 'skipped';
+  hash?: string;
+  error?: string;
+}